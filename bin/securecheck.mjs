@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+// Scans a URL through a running SecureCheck server's POST /api/v1/scan and
+// exits non-zero when the result fails the gate, for use in CI pipelines.
+// The server does the scoring and judging, with the same code as the UI, so
+// this script has no dependencies beyond Node 20.
+
+import { parseArgs } from 'node:util'
+
+const USAGE = `Usage: securecheck <url> [options]
+
+Options:
+  --api <origin>         SecureCheck server (default: $SECURECHECK_API or http://localhost:3000)
+  --min-verdict <status> Fail when the verdict is worse than safe, caution or unsafe (default: caution)
+  --min-score <0-100>    Fail when the overall score is below this
+  --fail-on <severity>   Fail on any issue of high, medium, low or info severity or worse
+  --json                 Print the API response as JSON instead of a table
+  --timeout <seconds>    Give up after this long (default: 120)
+  -h, --help             Show this help
+
+Exit codes: 0 passed, 1 failed the gate, 2 could not scan or some checks did not run`
+
+// Mirrors formatTitle in src/lib/analysis/format.ts
+const TITLES = { urlHeuristics: 'URL Heuristics', ssl: 'Security Headers' }
+const title = (key) =>
+  TITLES[key] ?? key.replace(/([A-Z])/g, ' $1').replace(/^./, (first) => first.toUpperCase())
+
+const SEVERITIES = ['high', 'medium', 'low', 'info']
+
+function parseOptions(argv) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      api: { type: 'string', default: process.env.SECURECHECK_API || 'http://localhost:3000' },
+      'min-verdict': { type: 'string', default: 'caution' },
+      'min-score': { type: 'string' },
+      'fail-on': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      timeout: { type: 'string', default: '120' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  if (values.help) return { help: true }
+  if (positionals.length !== 1) throw new Error('Expected exactly one URL')
+
+  const minScore = values['min-score'] === undefined ? undefined : Number(values['min-score'])
+  if (minScore !== undefined && !Number.isFinite(minScore)) throw new Error('--min-score must be a number')
+  const timeoutSeconds = Number(values.timeout)
+  if (!(timeoutSeconds > 0)) throw new Error('--timeout must be a positive number of seconds')
+
+  return {
+    url: positionals[0],
+    api: values.api.replace(/\/+$/, ''),
+    // The server checks these values and answers 400 with the allowed ones
+    gate: { minStatus: values['min-verdict'], minScore, failOn: values['fail-on'] },
+    json: values.json,
+    timeoutMs: timeoutSeconds * 1000,
+  }
+}
+
+async function scan({ url, api, gate, timeoutMs }) {
+  let response
+  try {
+    response = await fetch(`${api}/api/v1/scan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, gate }),
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+  } catch (error) {
+    if (error.name === 'TimeoutError') throw new Error(`No response within ${timeoutMs / 1000} seconds`)
+    throw new Error(`Could not reach ${api}: ${error.cause?.message ?? error.message}`)
+  }
+  const body = await response.json().catch(() => null)
+  if (!response.ok) throw new Error(body?.error?.message ?? `The server responded with ${response.status}`)
+  return body
+}
+
+function table(rows) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => String(row[column]).length)))
+  return rows
+    .map((row) => row.map((cell, column) => (column === 0 ? String(cell).padEnd(widths[column]) : String(cell).padStart(widths[column]))).join('  '))
+    .join('\n')
+}
+
+function printReport({ url, scannedAt, cached, verdict, result, gate }) {
+  const categories = Object.entries(result)
+  const count = (category, severity) => category.issues.filter((issue) => issue.severity === severity).length
+
+  console.log(`${url}  (scanned ${scannedAt}${cached ? ', from cache' : ''})`)
+  console.log(`Verdict: ${verdict.status.toUpperCase()}, score ${verdict.score}/100 - ${verdict.title}\n`)
+  console.log(table([
+    ['Category', 'Score', ...SEVERITIES.map((severity) => severity[0].toUpperCase() + severity.slice(1))],
+    ...categories.map(([key, category]) => [
+      title(key),
+      category.error ? 'n/a' : category.score,
+      ...SEVERITIES.map((severity) => count(category, severity)),
+    ]),
+  ]))
+
+  const high = categories.flatMap(([key, category]) =>
+    category.issues.filter((issue) => issue.severity === 'high').map((issue) => `${title(key)}: ${issue.message}`))
+  if (high.length > 0) console.log(`\nHigh severity issues:\n${high.map((line) => `  - ${line}`).join('\n')}`)
+
+  const unavailable = categories.filter(([, category]) => category.error)
+  if (unavailable.length > 0) {
+    console.log(`\nNot checked:\n${unavailable.map(([key, category]) => `  - ${title(key)}: ${category.error}`).join('\n')}`)
+  }
+
+  console.log(gate.passed ? '\nGate: PASSED' : `\nGate: FAILED\n${gate.failures.map((line) => `  - ${line}`).join('\n')}`)
+}
+
+async function main() {
+  let options
+  try {
+    options = parseOptions(process.argv.slice(2))
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`)
+    return 2
+  }
+  if (options.help) {
+    console.log(USAGE)
+    return 0
+  }
+
+  let report
+  try {
+    report = await scan(options)
+  } catch (error) {
+    console.error(`Scan failed: ${error.message}`)
+    return 2
+  }
+
+  if (options.json) console.log(JSON.stringify(report, null, 2))
+  else printReport(report)
+  // Judging a partial scan would pass sites on the checks that happened to run
+  if (report.gate.unavailable.length > 0) return 2
+  return report.gate.passed ? 0 : 1
+}
+
+process.exitCode = await main()
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ClipboardPaste } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { AnalysisResults } from '@/components/analysis-results'
+import { SiteHeader } from '@/components/site-header'
+import { VerdictBadge } from '@/components/verdict-badge'
+import type { AnalysisResult } from '@/lib/analysis/types'
+import { unavailableCategories } from '@/lib/analysis/transform'
+import { computeVerdict } from '@/lib/analysis/verdict'
+import { analyzePastedContent } from '@/lib/passive/analyze'
+import { InvalidUrlError } from '@/lib/url/normalize'
+
+const textareaClass = 'min-h-40 w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+// Offline analysis of pasted headers and HTML, for sites the scanner cannot reach
+export default function AnalyzePastedPage() {
+  const [url, setUrl] = useState('')
+  const [headers, setHeaders] = useState('')
+  const [html, setHtml] = useState('')
+  const [result, setResult] = useState<AnalysisResult | null>(null)
+
+  const handleAnalyze = () => {
+    try {
+      setResult(analyzePastedContent({ headers, html, url }))
+    } catch (error) {
+      if (error instanceof InvalidUrlError) {
+        toast.error('Invalid URL', { description: error.message })
+        return
+      }
+      throw error
+    }
+  }
+
+  const verdict = result && computeVerdict(result)
+  const skipped = result ? unavailableCategories(result).length : 0
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+              <ClipboardPaste className="h-7 w-7" />
+              Analyze Pasted Content
+            </h1>
+            <p className="text-muted-foreground">
+              For internal or staging sites the scanner cannot reach. Paste the response headers, the page source or
+              both; everything is checked in your browser and nothing is sent anywhere.
+            </p>
+
+            <Card>
+              <CardContent className="space-y-4 pt-6">
+                <label className="block space-y-1 text-sm font-medium">
+                  <span>Page URL (optional)</span>
+                  <Input
+                    type="text"
+                    inputMode="url"
+                    autoCapitalize="none"
+                    spellCheck={false}
+                    placeholder="https://staging.example.internal/login"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                  />
+                </label>
+                <label className="block space-y-1 text-sm font-medium">
+                  <span>Response headers</span>
+                  <textarea
+                    className={textareaClass}
+                    placeholder={'HTTP/2 200\ncontent-type: text/html\nstrict-transport-security: max-age=63072000'}
+                    spellCheck={false}
+                    value={headers}
+                    onChange={(e) => setHeaders(e.target.value)}
+                  />
+                </label>
+                <label className="block space-y-1 text-sm font-medium">
+                  <span>HTML source</span>
+                  <textarea
+                    className={textareaClass}
+                    placeholder={'<!doctype html>\n<html>...</html>'}
+                    spellCheck={false}
+                    value={html}
+                    onChange={(e) => setHtml(e.target.value)}
+                  />
+                </label>
+                <div className="flex justify-end">
+                  <Button onClick={handleAnalyze} disabled={!headers.trim() && !html.trim()}>
+                    Analyze
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {result && verdict && (
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex flex-wrap items-center gap-3 text-base">
+                      <VerdictBadge status={verdict.status} />
+                      <span>{verdict.title}</span>
+                      <span className="font-normal text-muted-foreground">Score {verdict.score}/100</span>
+                    </CardTitle>
+                  </CardHeader>
+                  {skipped > 0 && (
+                    <CardContent className="text-sm text-muted-foreground">
+                      {skipped} categories could not be checked from pasted content and are left out of the score.
+                    </CardContent>
+                  )}
+                </Card>
+                <AnalysisResults result={result} />
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { errorResponse } from '@/lib/server/responses'
+import { cacheScan, fetchUpstream, prepareScan } from '@/lib/server/check-website'
+import { announceScanResponse } from '@/lib/webhooks/deliver'
+
+/**
+ * Proxies scans to the backend so the browser never talks to it directly.
+ * Responses are cached per normalized URL and requests are rate limited per
+ * client. Errors use the `{ error: { code, message } }` shape. X-Scanned-At
+ * says when the scan ran, which for a cache hit is the original scan's time.
+ * Fresh results are announced to the webhook targets; cache hits are not new
+ * scans.
+ */
+export async function POST(request: Request) {
+  const prepared = await prepareScan(request)
+  if (prepared instanceof Response) return prepared
+  if (prepared.cached !== undefined) {
+    return Response.json(prepared.cached.payload, {
+      headers: { 'X-Cache': 'HIT', 'X-Scanned-At': prepared.cached.scannedAt },
+    })
+  }
+
+  const fetched = await fetchUpstream('/check-website', prepared.url)
+  if ('error' in fetched) return fetched.error
+
+  let data: unknown
+  try {
+    data = await fetched.upstream.json()
+  } catch {
+    return errorResponse('upstream_error', 502, { message: 'The scanner returned an invalid response' })
+  }
+
+  const scannedAt = new Date().toISOString()
+  cacheScan(prepared.url, data, scannedAt)
+  announceScanResponse(prepared.url, data)
+  return Response.json(data, {
+    headers: { 'X-Cache': 'MISS', 'X-Scanned-At': scannedAt, 'X-RateLimit-Remaining': String(prepared.remaining) },
+  })
+}
@@ -0,0 +1,103 @@
+import { SECTION_KEYS, type SectionKey } from '@/lib/api/check-website'
+import { isApiErrorBody } from '@/lib/api/errors'
+import { encodeEvent, NDJSON_CONTENT_TYPE, readNdjson, type ScanEvent } from '@/lib/api/stream'
+import { cacheScan, fetchUpstream, prepareScan } from '@/lib/server/check-website'
+import { announceScanResponse } from '@/lib/webhooks/deliver'
+
+const isSectionKey = (value: unknown): value is SectionKey =>
+  typeof value === 'string' && (SECTION_KEYS as string[]).includes(value)
+
+/**
+ * Streams a scan as NDJSON events (see ScanEvent) so the UI can render each
+ * check as soon as it finishes.
+ *
+ * When the backend offers `POST /check-website/stream`, answering with NDJSON
+ * lines of `{ "section", "data", "duration_ms" }` or `{ "section", "error" }`,
+ * those are relayed as they arrive. Otherwise the regular endpoint is used and
+ * its sections are emitted once the whole response is in.
+ */
+export async function POST(request: Request) {
+  const prepared = await prepareScan(request)
+  if (prepared instanceof Response) return prepared
+  const { url } = prepared
+
+  const encoder = new TextEncoder()
+  const started = Date.now()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScanEvent) => controller.enqueue(encoder.encode(encodeEvent(event)))
+      const sendError = async (response: Response) => {
+        const body: unknown = await response.json().catch(() => null)
+        send(isApiErrorBody(body)
+          ? { type: 'error', ...body }
+          : { type: 'error', error: { code: 'upstream_error', message: 'Failed to analyze website' } })
+      }
+      const sendSections = (payload: unknown) => {
+        const body = (typeof payload === 'object' && payload !== null ? payload : {}) as Record<string, unknown>
+        for (const section of SECTION_KEYS) {
+          if (section in body) send({ type: 'section', section, data: body[section], durationMs: Date.now() - started })
+        }
+      }
+
+      try {
+        send({ type: 'start', url, checks: SECTION_KEYS })
+
+        if (prepared.cached !== undefined) {
+          sendSections(prepared.cached.payload)
+          send({ type: 'done', durationMs: Date.now() - started, cached: true, scannedAt: prepared.cached.scannedAt })
+          return
+        }
+
+        const streamed = await fetchUpstream('/check-website/stream', url, { passStatuses: [404, 405, 501] })
+        if ('error' in streamed) return await sendError(streamed.error)
+
+        const { upstream } = streamed
+        let payload: Record<string, unknown> = {}
+        let complete = true
+
+        if (upstream.ok && upstream.body && upstream.headers.get('Content-Type')?.includes(NDJSON_CONTENT_TYPE)) {
+          for await (const line of readNdjson(upstream.body)) {
+            const { section, data, error, duration_ms: durationMs } = (line ?? {}) as Record<string, unknown>
+            if (!isSectionKey(section)) continue
+            const elapsed = typeof durationMs === 'number' ? durationMs : Date.now() - started
+            if (typeof error === 'string') {
+              complete = false
+              send({ type: 'section_error', section, message: error, durationMs: elapsed })
+            } else {
+              payload[section] = data
+              send({ type: 'section', section, data, durationMs: elapsed })
+            }
+          }
+        } else {
+          // No streaming support upstream: fall back to the single-shot endpoint
+          await upstream.body?.cancel()
+          const fetched = await fetchUpstream('/check-website', url)
+          if ('error' in fetched) return await sendError(fetched.error)
+          payload = await fetched.upstream.json()
+          sendSections(payload)
+        }
+
+        const scannedAt = new Date().toISOString()
+        // A scan with failed checks is not worth serving to the next visitor
+        if (complete) cacheScan(url, payload, scannedAt)
+        announceScanResponse(url, payload)
+        send({ type: 'done', durationMs: Date.now() - started, cached: false, scannedAt })
+      } catch (error) {
+        console.error('Error streaming scan:', error)
+        send({ type: 'error', error: { code: 'upstream_error', message: 'The scan was interrupted' } })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
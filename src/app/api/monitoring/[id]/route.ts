@@ -0,0 +1,19 @@
+import { updateWatchlist } from '@/lib/monitoring/store'
+import { requireAdmin } from '@/lib/server/auth'
+import { errorResponse } from '@/lib/server/responses'
+
+// Stops watching a site; its history and alerts are dropped with it
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  const { id } = await params
+  const removed = await updateWatchlist((watchlist) => ({
+    watchlist: {
+      sites: watchlist.sites.filter((site) => site.id !== id),
+      alerts: watchlist.alerts.filter((alert) => alert.siteId !== id),
+    },
+    value: watchlist.sites.some((site) => site.id === id),
+  }))
+  if (!removed) return errorResponse('not_found', 404, { message: 'That site is not on the watchlist' })
+  return new Response(null, { status: 204 })
+}
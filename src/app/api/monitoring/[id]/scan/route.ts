@@ -0,0 +1,25 @@
+import { rescanSite } from '@/lib/monitoring/scheduler'
+import { readWatchlist } from '@/lib/monitoring/store'
+import { requireAdmin } from '@/lib/server/auth'
+import { reserveScan } from '@/lib/server/check-website'
+import { errorResponse } from '@/lib/server/responses'
+
+/**
+ * Rescans a watched site now, alerting on regressions as a scheduled rescan
+ * would, and responds with the updated site once the scan is done. Rescans
+ * bypass the scan cache, so each one counts against the client's rate limit.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  const { id } = await params
+  const { sites } = await readWatchlist()
+  const site = sites.find((other) => other.id === id)
+  if (!site) return errorResponse('not_found', 404, { message: 'That site is not on the watchlist' })
+
+  const limit = reserveScan(request)
+  if (limit instanceof Response) return limit
+  const updated = await rescanSite(site)
+  if (!updated) return errorResponse('not_found', 404, { message: 'That site is not on the watchlist' })
+  return Response.json(updated)
+}
@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto'
+import { serverEnv } from '@/config/server'
+import { readWatchlist, updateWatchlist } from '@/lib/monitoring/store'
+import {
+  DEFAULT_INTERVAL_MINUTES,
+  MAX_INTERVAL_MINUTES,
+  MIN_INTERVAL_MINUTES,
+  nextScanAt,
+  type WatchedSite,
+} from '@/lib/monitoring/watchlist'
+import { requireAdmin } from '@/lib/server/auth'
+import { reserveScan } from '@/lib/server/check-website'
+import { errorResponse } from '@/lib/server/responses'
+import { InvalidUrlError, normalizeUrl } from '@/lib/url/normalize'
+
+// The scheduler rewrites the file between requests, so never serve a cached copy
+export const dynamic = 'force-dynamic'
+
+// Every watchlist route needs the admin token: watched sites make this server scan on a schedule
+
+// The watched sites with their score history, and the most recent alerts
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  return Response.json(await readWatchlist())
+}
+
+/**
+ * Adds `{ url, intervalMinutes? }` to the watchlist; the first scan runs on
+ * the scheduler's next tick. Adding a URL that is already watched changes its
+ * interval instead (200 rather than 201). Each request counts against the
+ * client's scan rate limit, and new sites are refused once the watchlist holds
+ * `MONITOR_MAX_SITES`.
+ */
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid_request', 400, { message: 'Request body must be JSON' })
+  }
+
+  const { url: rawUrl, intervalMinutes = DEFAULT_INTERVAL_MINUTES } = (body ?? {}) as {
+    url?: unknown
+    intervalMinutes?: unknown
+  }
+  if (typeof rawUrl !== 'string') {
+    return errorResponse('invalid_url', 400, { message: 'Request body must include a "url" string' })
+  }
+  if (
+    typeof intervalMinutes !== 'number' || !Number.isInteger(intervalMinutes) ||
+    intervalMinutes < MIN_INTERVAL_MINUTES || intervalMinutes > MAX_INTERVAL_MINUTES
+  ) {
+    return errorResponse('invalid_request', 400, {
+      message: `"intervalMinutes" must be a whole number from ${MIN_INTERVAL_MINUTES} to ${MAX_INTERVAL_MINUTES}`,
+    })
+  }
+
+  let url: string
+  try {
+    url = normalizeUrl(rawUrl)
+  } catch (error) {
+    if (error instanceof InvalidUrlError) return errorResponse('invalid_url', 400, { message: error.message })
+    throw error
+  }
+
+  const limit = reserveScan(request)
+  if (limit instanceof Response) return limit
+
+  const { maxSites } = serverEnv.monitoring
+  const added = await updateWatchlist((watchlist) => {
+    const now = new Date()
+    const existing = watchlist.sites.find((other) => other.url === url)
+    if (existing) {
+      const site: WatchedSite = {
+        ...existing,
+        intervalMinutes,
+        // Brought forward when the new interval is shorter
+        nextScanAt: [existing.nextScanAt, nextScanAt(intervalMinutes, now)].sort()[0],
+      }
+      return {
+        watchlist: { ...watchlist, sites: watchlist.sites.map((other) => (other.id === site.id ? site : other)) },
+        value: { site, created: false },
+      }
+    }
+    if (watchlist.sites.length >= maxSites) return { watchlist, value: undefined }
+    const site: WatchedSite = {
+      id: randomUUID(),
+      url,
+      intervalMinutes,
+      createdAt: now.toISOString(),
+      nextScanAt: now.toISOString(),
+      history: [],
+      highSeverity: [],
+    }
+    return { watchlist: { ...watchlist, sites: [...watchlist.sites, site] }, value: { site, created: true } }
+  })
+  if (!added) {
+    return errorResponse('invalid_request', 409, {
+      message: `The watchlist is limited to ${maxSites} sites; remove one before adding another`,
+    })
+  }
+  return Response.json(added.site, { status: added.created ? 201 : 200 })
+}
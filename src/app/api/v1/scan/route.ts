@@ -0,0 +1,47 @@
+import { evaluateGate, parseGatePolicy } from '@/lib/analysis/gate'
+import { ApiError } from '@/lib/api/client'
+import { prepareScan } from '@/lib/server/check-website'
+import { errorResponse } from '@/lib/server/responses'
+import { outcomeFromPayload, scanOnServer } from '@/lib/server/scan'
+
+/**
+ * Public scan endpoint for scripts and CI, see "REST API" in the README.
+ * Takes `{ url, gate? }` and responds with the normalized AnalysisResult and
+ * verdict, computed as the UI computes them, plus the gate's outcome when a
+ * gate was given. Shares the proxy's cache and per-client rate limit: a cached
+ * result keeps its original `scannedAt` and is flagged `cached: true`. Errors
+ * use the `{ error: { code, message } }` shape.
+ */
+export async function POST(request: Request) {
+  // Checked first so a bad gate does not use up the rate limit; prepareScan reports malformed JSON
+  const { gate } = ((await request.clone().json().catch(() => null)) ?? {}) as { gate?: unknown }
+  const policy = gate === undefined ? undefined : parseGatePolicy(gate)
+  if (typeof policy === 'string') return errorResponse('invalid_request', 400, { message: policy })
+
+  const prepared = await prepareScan(request)
+  if (prepared instanceof Response) return prepared
+
+  let outcome
+  try {
+    outcome = prepared.cached !== undefined
+      ? outcomeFromPayload(prepared.url, prepared.cached.payload, prepared.cached.scannedAt)
+      : await scanOnServer(prepared.url)
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error
+    const retryAfter = error.retryAfterMs === undefined ? undefined : String(Math.ceil(error.retryAfterMs / 1000))
+    return errorResponse(error.code ?? 'upstream_error', error.status && error.status >= 400 ? error.status : 502, {
+      message: error.message,
+      headers: retryAfter ? { 'Retry-After': retryAfter } : undefined,
+    })
+  }
+
+  return Response.json(
+    { ...outcome, cached: prepared.cached !== undefined, ...(policy ? { gate: evaluateGate(outcome, policy) } : {}) },
+    {
+      headers: {
+        'X-Cache': prepared.cached !== undefined ? 'HIT' : 'MISS',
+        ...(prepared.remaining !== undefined ? { 'X-RateLimit-Remaining': String(prepared.remaining) } : {}),
+      },
+    }
+  )
+}
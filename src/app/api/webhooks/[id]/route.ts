@@ -0,0 +1,16 @@
+import { requireAdmin } from '@/lib/server/auth'
+import { errorResponse } from '@/lib/server/responses'
+import { webhookStore } from '@/lib/webhooks/store'
+
+// Removes a target; its past deliveries stay in the log
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  const { id } = await params
+  const removed = await webhookStore.update((state) => ({
+    next: { ...state, targets: state.targets.filter((target) => target.id !== id) },
+    value: state.targets.some((target) => target.id === id),
+  }))
+  if (!removed) return errorResponse('not_found', 404, { message: 'No webhook target with that ID' })
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,15 @@
+import { requireAdmin } from '@/lib/server/auth'
+import { errorResponse } from '@/lib/server/responses'
+import { deliverToTarget } from '@/lib/webhooks/deliver'
+import { webhookStore } from '@/lib/webhooks/store'
+
+// Sends a ping event to one target, once and without retries, and responds with its delivery record
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  const { id } = await params
+  const { targets } = await webhookStore.read()
+  const target = targets.find((other) => other.id === id)
+  if (!target) return errorResponse('not_found', 404, { message: 'No webhook target with that ID' })
+  return Response.json(await deliverToTarget(target, { type: 'ping' }, { maxAttempts: 1 }))
+}
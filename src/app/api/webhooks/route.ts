@@ -0,0 +1,79 @@
+import { randomUUID } from 'node:crypto'
+import { requireAdmin } from '@/lib/server/auth'
+import { assertPublicUrl, PrivateAddressError, UnresolvedHostError } from '@/lib/server/public-address'
+import { errorResponse } from '@/lib/server/responses'
+import { WEBHOOK_FORMATS, type WebhookFormat } from '@/lib/webhooks/payload'
+import { generateSecret } from '@/lib/webhooks/signature'
+import { webhookStore } from '@/lib/webhooks/store'
+import type { WebhookListing, WebhookTarget } from '@/lib/webhooks/targets'
+
+// Deliveries update the file in the background, so never serve a cached copy
+export const dynamic = 'force-dynamic'
+
+// Every webhook route needs the admin token: targets make this server send requests
+
+// The configured targets, without their signing secrets, and the delivery log
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+  const { targets, deliveries } = await webhookStore.read()
+  const listing: WebhookListing = {
+    targets: targets.map(({ id, url, format, createdAt }) => ({ id, url, format, createdAt })),
+    deliveries,
+  }
+  return Response.json(listing)
+}
+
+const isWebhookFormat = (value: unknown): value is WebhookFormat =>
+  WEBHOOK_FORMATS.some((format) => format.value === value)
+
+/**
+ * Adds a target from `{ url, format? }`. The response is the only place the
+ * generated signing secret is ever returned. Hosts that resolve to loopback,
+ * private or link-local addresses are refused.
+ */
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid_request', 400, { message: 'Request body must be JSON' })
+  }
+
+  const { url, format = 'json' } = (body ?? {}) as { url?: unknown; format?: unknown }
+  let target: URL
+  try {
+    target = new URL(typeof url === 'string' ? url.trim() : '')
+  } catch {
+    return errorResponse('invalid_url', 400, { message: 'Request body must include a "url" with the full webhook address' })
+  }
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    return errorResponse('invalid_url', 400, { message: 'Webhook URLs must use http or https' })
+  }
+  try {
+    await assertPublicUrl(target.href)
+  } catch (error) {
+    if (error instanceof PrivateAddressError || error instanceof UnresolvedHostError) {
+      return errorResponse('invalid_url', 400, { message: error.message })
+    }
+    throw error
+  }
+  if (!isWebhookFormat(format)) {
+    return errorResponse('invalid_request', 400, {
+      message: `"format" must be one of ${WEBHOOK_FORMATS.map((option) => option.value).join(', ')}`,
+    })
+  }
+
+  const created: WebhookTarget = {
+    id: randomUUID(),
+    url: target.href,
+    format,
+    secret: generateSecret(),
+    createdAt: new Date().toISOString(),
+  }
+  await webhookStore.update((state) => ({ next: { ...state, targets: [...state.targets, created] }, value: undefined }))
+  return Response.json(created, { status: 201 })
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import { Fragment, useEffect, useRef, useState } from 'react'
+import { ArrowDown, ArrowUp, ListChecks, Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AnalysisResults } from '@/components/analysis-results'
+import { SiteHeader } from '@/components/site-header'
+import { VerdictBadge } from '@/components/verdict-badge'
+import { analyzeWebsite } from '@/lib/analysis/run'
+import { highSeverityCount } from '@/lib/analysis/verdict'
+import { parseUrlList } from '@/lib/batch/parse'
+import { runBatch, type BatchItem } from '@/lib/batch/queue'
+import { saveScan } from '@/lib/history/store'
+
+type SortKey = 'url' | 'verdict' | 'score' | 'high'
+
+const VERDICT_RANK = { unsafe: 0, caution: 1, safe: 2 } as const
+
+const sortValue = (item: BatchItem, key: SortKey): string | number => {
+  switch (key) {
+    case 'url':
+      return item.url
+    case 'verdict':
+      return item.outcome ? VERDICT_RANK[item.outcome.verdict.status] : Number.MAX_SAFE_INTEGER
+    case 'score':
+      return item.outcome?.verdict.score ?? Number.MAX_SAFE_INTEGER
+    case 'high':
+      return item.outcome ? highSeverityCount(item.outcome.result) : -1
+  }
+}
+
+const statusLabels: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  running: 'Scanning',
+  waiting: 'Rate limited, waiting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+function SortHeader({ label, sortKey, sort, onSort }: {
+  label: string
+  sortKey: SortKey
+  sort: { key: SortKey; ascending: boolean }
+  onSort: (key: SortKey) => void
+}) {
+  return (
+    <th className="px-3 py-2 text-left font-medium">
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => onSort(sortKey)}>
+        {label}
+        {sort.key === sortKey && (sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </th>
+  )
+}
+
+export default function BatchPage() {
+  const [input, setInput] = useState('')
+  const [concurrency, setConcurrency] = useState(3)
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'score', ascending: true })
+  const [expandedUrl, setExpandedUrl] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Leaving the page stops the batch instead of scanning on in the background
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const urls = parseUrlList(input)
+
+  const handleStart = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setExpandedUrl(null)
+    setItems(urls.map((url) => ({ url, status: 'queued', attempts: 0 })))
+
+    await runBatch(
+      urls,
+      async (url, signal) => {
+        const outcome = await analyzeWebsite(url, { signal })
+        saveScan(outcome)
+        return outcome
+      },
+      (index, item) => setItems((current) => current.map((existing, i) => (i === index ? item : existing))),
+      { concurrency, signal: controller.signal }
+    )
+
+    setIsRunning(false)
+    abortRef.current = null
+  }
+
+  const handleFile = async (file: File) => {
+    setInput(await file.text())
+  }
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({ key, ascending: current.key === key ? !current.ascending : true }))
+  }
+
+  const sorted = [...items].sort((a, b) => {
+    const left = sortValue(a, sort.key)
+    const right = sortValue(b, sort.key)
+    const order = typeof left === 'string' ? left.localeCompare(String(right)) : left - Number(right)
+    return sort.ascending ? order : -order
+  })
+
+  const completed = items.filter((item) => item.status === 'done' || item.status === 'failed').length
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+              <ListChecks className="h-7 w-7" />
+              Batch Scan
+            </h1>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">URLs to scan</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <textarea
+                  className="min-h-40 w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  placeholder={'One URL per line, or paste CSV with a "url" column\nhttps://www.example.com\napi.example.com'}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  disabled={isRunning}
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+                    <Upload />
+                    Upload CSV
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleFile(file)
+                      e.target.value = ''
+                    }}
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    Parallel scans
+                    <select
+                      className="h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm"
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(Number(e.target.value))}
+                      disabled={isRunning}
+                    >
+                      {[1, 2, 3, 5, 8].map((value) => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="text-sm text-muted-foreground">{urls.length} URLs</span>
+                  <div className="ml-auto flex gap-2">
+                    {isRunning ? (
+                      <Button variant="destructive" onClick={() => abortRef.current?.abort()}>
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button onClick={handleStart} disabled={urls.length === 0}>
+                        Scan {urls.length || ''} URLs
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {items.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {completed} of {items.length} finished
+                </p>
+                <div className="overflow-x-auto rounded-xl border">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-muted/50">
+                      <tr>
+                        <SortHeader label="URL" sortKey="url" sort={sort} onSort={toggleSort} />
+                        <SortHeader label="Verdict" sortKey="verdict" sort={sort} onSort={toggleSort} />
+                        <SortHeader label="Score" sortKey="score" sort={sort} onSort={toggleSort} />
+                        <SortHeader label="High issues" sortKey="high" sort={sort} onSort={toggleSort} />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sorted.map((item) => (
+                        <Fragment key={item.url}>
+                          <tr
+                            className={`border-b ${item.outcome ? 'cursor-pointer hover:bg-muted/50' : ''}`}
+                            onClick={() => item.outcome && setExpandedUrl(expandedUrl === item.url ? null : item.url)}
+                          >
+                            <td className="px-3 py-2 font-medium break-all">{item.url}</td>
+                            <td className="px-3 py-2">
+                              {item.outcome ? (
+                                <VerdictBadge status={item.outcome.verdict.status} />
+                              ) : (
+                                <span className={`inline-flex items-center gap-1 ${item.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                                  {(item.status === 'running' || item.status === 'waiting') && <Loader2 className="h-3 w-3 animate-spin" />}
+                                  {item.status === 'failed' ? item.error : statusLabels[item.status]}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2">{item.outcome ? `${item.outcome.verdict.score}/100` : '—'}</td>
+                            <td className="px-3 py-2">{item.outcome ? highSeverityCount(item.outcome.result) : '—'}</td>
+                          </tr>
+                          {expandedUrl === item.url && item.outcome && (
+                            <tr className="border-b">
+                              <td colSpan={4} className="p-4">
+                                <AnalysisResults result={item.outcome.result} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { notFound } from 'next/navigation'
+import { SiteHeader } from '@/components/site-header'
+import { TlsPanel } from '@/components/tls-panel'
+import { TLS_FIXTURES } from '@/fixtures/tls'
+import { toTlsDetails } from '@/lib/analysis/tls'
+import { validateCheckWebsiteResponse } from '@/lib/api/check-website'
+
+// Renders the TLS panel from recorded backend responses, through the same
+// validation and mapping as a live scan. Development only.
+export default function TlsFixturesPage() {
+  if (process.env.NODE_ENV === 'production') notFound()
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container space-y-10 px-4 md:px-6">
+            <h1 className="text-2xl font-bold tracking-tighter">TLS panel fixtures</h1>
+            {Object.entries(TLS_FIXTURES).map(([name, fixture]) => {
+              const { sections, errors } = validateCheckWebsiteResponse(fixture.response)
+              const tls = toTlsDetails(sections)
+              return (
+                <div key={name} className="space-y-3">
+                  <h2 className="text-lg font-semibold">
+                    {name} <span className="font-normal text-muted-foreground">{fixture.url}</span>
+                  </h2>
+                  {tls ? (
+                    <TlsPanel tls={tls} asOf={fixture.recorded_at} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No TLS details: {errors.tls_check ?? 'not reported'}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
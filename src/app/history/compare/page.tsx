@@ -0,0 +1,98 @@
+'use client'
+
+import { Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { ScanDiff } from '@/components/scan-diff'
+import { SiteHeader } from '@/components/site-header'
+import { VerdictBadge } from '@/components/verdict-badge'
+import { useScanHistory } from '@/hooks/use-scan-history'
+import { diffResults } from '@/lib/analysis/diff'
+import type { ScanRecord } from '@/lib/history/store'
+
+function ScanSelect({ label, value, records, onChange }: {
+  label: string
+  value: string
+  records: ScanRecord[]
+  onChange: (id: string) => void
+}) {
+  const selected = records.find((record) => record.id === value)
+  return (
+    <label className="flex flex-col gap-1 text-sm font-medium">
+      {label}
+      <div className="flex items-center gap-2">
+        <select
+          className="h-9 flex-1 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          {records.map((record) => (
+            <option key={record.id} value={record.id}>
+              {new Date(record.scannedAt).toLocaleString()} (score {record.verdict.score})
+            </option>
+          ))}
+        </select>
+        {selected && <VerdictBadge status={selected.verdict.status} />}
+      </div>
+    </label>
+  )
+}
+
+function CompareScans() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const records = useScanHistory()
+
+  const after = records.find((record) => record.id === searchParams.get('after'))
+  const before = records.find((record) => record.id === searchParams.get('before'))
+  // Only scans of the same URL are meaningful to compare
+  const sameUrl = records
+    .filter((record) => record.url === (after ?? before)?.url)
+    .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt))
+
+  const select = (key: 'before' | 'after', id: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.set(key, id)
+    router.replace(`/history/compare?${params.toString()}`)
+  }
+
+  if (!before || !after) {
+    return <p className="text-muted-foreground">Choose two scans of the same URL from the history page to compare them.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-lg font-semibold break-all">{after.url}</p>
+      <div className="grid gap-4 md:grid-cols-2">
+        <ScanSelect label="Before" value={before.id} records={sameUrl} onChange={(id) => select('before', id)} />
+        <ScanSelect label="After" value={after.id} records={sameUrl} onChange={(id) => select('after', id)} />
+      </div>
+      <ScanDiff diff={diffResults(before.result, after.result)} />
+    </div>
+  )
+}
+
+export default function ComparePage() {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <Link href="/history" className="inline-flex items-center gap-1 text-sm hover:underline underline-offset-4">
+              <ArrowLeft className="h-4 w-4" />
+              Back to history
+            </Link>
+            <h1 className="text-3xl font-bold tracking-tighter">Compare Scans</h1>
+            {/* useSearchParams needs a Suspense boundary for static rendering */}
+            <Suspense>
+              <CompareScans />
+            </Suspense>
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { GitCompare, History, RotateCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AnalysisResults } from '@/components/analysis-results'
+import { ReportExportActions } from '@/components/report-export-actions'
+import { SiteHeader } from '@/components/site-header'
+import { VerdictBadge } from '@/components/verdict-badge'
+import { useScanHistory } from '@/hooks/use-scan-history'
+import { analyzeWebsite } from '@/lib/analysis/run'
+import { clearHistory, deleteScan, saveScan, type ScanRecord } from '@/lib/history/store'
+
+export default function HistoryPage() {
+  const records = useScanHistory()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [rerunningUrl, setRerunningUrl] = useState<string | null>(null)
+
+  const handleRerun = async (record: ScanRecord) => {
+    setRerunningUrl(record.url)
+    const loadingToast = toast.loading('Re-running analysis...', { description: record.url })
+    try {
+      const saved = saveScan(await analyzeWebsite(record.url))
+      setSelectedId(saved.id)
+      toast.success('Analysis completed', { description: record.url, id: loadingToast })
+    } catch (error) {
+      toast.error('Analysis failed', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        id: loadingToast,
+      })
+    } finally {
+      setRerunningUrl(null)
+    }
+  }
+
+  const handleDelete = (record: ScanRecord) => {
+    deleteScan(record.id)
+    if (record.id === selectedId) setSelectedId(null)
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+                <History className="h-7 w-7" />
+                Scan History
+              </h1>
+              {records.length > 0 && (
+                <Button variant="outline" onClick={() => { clearHistory(); setSelectedId(null) }}>
+                  Clear history
+                </Button>
+              )}
+            </div>
+
+            {records.length === 0 ? (
+              <p className="text-muted-foreground">
+                No scans yet. Results are saved in this browser every time you analyze a website.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {records.map((record, index) => {
+                  // Records are newest first, so the previous scan of this URL comes later
+                  const previous = records.slice(index + 1).find((other) => other.url === record.url)
+                  return (
+                    <Card
+                      key={record.id}
+                      className={record.id === selectedId ? 'border-primary' : undefined}
+                    >
+                      <CardHeader className="flex flex-row items-center gap-4 space-y-0 p-4">
+                        <button
+                          type="button"
+                          className="flex-1 min-w-0 text-left"
+                          onClick={() => setSelectedId(record.id === selectedId ? null : record.id)}
+                        >
+                          <CardTitle className="truncate text-base">{record.url}</CardTitle>
+                          <CardDescription>
+                            {new Date(record.scannedAt).toLocaleString()} · Score {record.verdict.score}/100
+                          </CardDescription>
+                        </button>
+                        <VerdictBadge status={record.verdict.status} />
+                        {previous && (
+                          <Button variant="ghost" size="icon" title="Compare with previous scan" asChild>
+                            <Link href={`/history/compare?before=${previous.id}&after=${record.id}`}>
+                              <GitCompare />
+                            </Link>
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Re-run scan"
+                          disabled={rerunningUrl !== null}
+                          onClick={() => handleRerun(record)}
+                        >
+                          <RotateCw className={rerunningUrl === record.url ? 'animate-spin' : undefined} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete scan"
+                          onClick={() => handleDelete(record)}
+                        >
+                          <Trash2 />
+                        </Button>
+                      </CardHeader>
+                      {record.id === selectedId && (
+                        <CardContent className="p-4 pt-0 space-y-4">
+                          <p className="text-sm">
+                            <span className="font-semibold">{record.verdict.title}.</span>{' '}
+                            {record.verdict.description}
+                          </p>
+                          <ReportExportActions scan={record} />
+                          <AnalysisResults result={record.result} />
+                        </CardContent>
+                      )}
+                    </Card>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
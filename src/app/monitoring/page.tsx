@@ -0,0 +1,229 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { BellRing, Radar, RotateCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { AdminTokenCard } from '@/components/admin-token-card'
+import { SiteHeader } from '@/components/site-header'
+import { Sparkline } from '@/components/sparkline'
+import { VerdictBadge } from '@/components/verdict-badge'
+import { ApiError } from '@/lib/api/client'
+import { fetchWatchlist, rescanWatchedSite, unwatchSite, watchSite } from '@/lib/monitoring/client'
+import { DEFAULT_INTERVAL_MINUTES, INTERVAL_OPTIONS, type Watchlist } from '@/lib/monitoring/watchlist'
+
+// The scheduler updates the watchlist in the background; pick up its changes while the page is open
+const REFRESH_MS = 30000
+
+const intervalLabel = (minutes: number) =>
+  INTERVAL_OPTIONS.find((option) => option.minutes === minutes)?.label ?? `Every ${minutes} minutes`
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'An unexpected error occurred')
+
+const isUnauthorized = (error: unknown) => error instanceof ApiError && error.code === 'unauthorized'
+
+export default function MonitoringPage() {
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null)
+  const [needsToken, setNeedsToken] = useState(false)
+  const [url, setUrl] = useState('')
+  const [intervalMinutes, setIntervalMinutes] = useState(DEFAULT_INTERVAL_MINUTES)
+  const [isAdding, setIsAdding] = useState(false)
+  const [rescanningId, setRescanningId] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setWatchlist(await fetchWatchlist())
+      setNeedsToken(false)
+    } catch (error) {
+      if (isUnauthorized(error)) {
+        setWatchlist(null)
+        setNeedsToken(true)
+        return
+      }
+      toast.error('Could not load the watchlist', { description: errorMessage(error) })
+    }
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // Only poll while signed in, so a missing token does not keep failing in the background
+  useEffect(() => {
+    if (needsToken) return
+    const timer = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [needsToken, refresh])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsAdding(true)
+    try {
+      const site = await watchSite(url, intervalMinutes)
+      toast.success('Watching site', { description: `${site.url}, ${intervalLabel(site.intervalMinutes).toLowerCase()}` })
+      setUrl('')
+      await refresh()
+    } catch (error) {
+      toast.error('Could not add site', { description: errorMessage(error) })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRescan = async (id: string, siteUrl: string) => {
+    setRescanningId(id)
+    const loadingToast = toast.loading('Rescanning...', { description: siteUrl })
+    try {
+      const site = await rescanWatchedSite(id)
+      if (site.lastError) {
+        toast.error('Rescan failed', { description: site.lastError, id: loadingToast })
+      } else {
+        toast.success('Rescan completed', { description: siteUrl, id: loadingToast })
+      }
+      await refresh()
+    } catch (error) {
+      toast.error('Rescan failed', { description: errorMessage(error), id: loadingToast })
+    } finally {
+      setRescanningId(null)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      await unwatchSite(id)
+      await refresh()
+    } catch (error) {
+      toast.error('Could not remove site', { description: errorMessage(error) })
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+              <Radar className="h-7 w-7" />
+              Monitoring
+            </h1>
+            <p className="text-muted-foreground">
+              Watched sites are rescanned on the server at their interval. An alert is sent when a verdict gets worse
+              or a new high severity issue appears.
+            </p>
+
+            <AdminTokenCard
+              refusedMessage={needsToken ? "Managing the watchlist needs the server's admin token." : undefined}
+              onSaved={refresh}
+            />
+
+            <Card>
+              <CardContent className="pt-6">
+                <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+                  <Input
+                    type="text"
+                    inputMode="url"
+                    autoCapitalize="none"
+                    spellCheck={false}
+                    placeholder="https://example.com"
+                    className="flex-1 min-w-60"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={isAdding}
+                  />
+                  <select
+                    className="h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm"
+                    value={intervalMinutes}
+                    onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+                    disabled={isAdding}
+                  >
+                    {INTERVAL_OPTIONS.map((option) => (
+                      <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                    ))}
+                  </select>
+                  <Button type="submit" disabled={isAdding || needsToken || !url.trim()}>
+                    Watch
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {watchlist && watchlist.sites.length === 0 && (
+              <p className="text-muted-foreground">No sites are being watched yet.</p>
+            )}
+
+            {watchlist && watchlist.sites.length > 0 && (
+              <div className="space-y-3">
+                {watchlist.sites.map((site) => {
+                  const latest = site.history.at(-1)
+                  return (
+                    <Card key={site.id}>
+                      <CardHeader className="flex flex-row items-center gap-4 space-y-0 p-4">
+                        <div className="flex-1 min-w-0">
+                          <CardTitle className="truncate text-base">{site.url}</CardTitle>
+                          <CardDescription>
+                            {intervalLabel(site.intervalMinutes)} · Next scan {new Date(site.nextScanAt).toLocaleString()}
+                            {latest && <> · Last scanned {new Date(latest.scannedAt).toLocaleString()}</>}
+                          </CardDescription>
+                          {site.lastError && (
+                            <p className="text-sm text-red-600">Last rescan failed: {site.lastError}</p>
+                          )}
+                        </div>
+                        <Sparkline points={site.history} />
+                        {latest && (
+                          <>
+                            <span className="text-sm font-semibold">{latest.score}/100</span>
+                            <VerdictBadge status={latest.status} />
+                          </>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Rescan now"
+                          disabled={rescanningId !== null}
+                          onClick={() => handleRescan(site.id, site.url)}
+                        >
+                          <RotateCw className={rescanningId === site.id ? 'animate-spin' : undefined} />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Stop watching" onClick={() => handleRemove(site.id)}>
+                          <Trash2 />
+                        </Button>
+                      </CardHeader>
+                    </Card>
+                  )
+                })}
+              </div>
+            )}
+
+            {watchlist && watchlist.alerts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <BellRing className="h-5 w-5" />
+                    Recent alerts
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {watchlist.alerts.map((alert) => (
+                    <div key={alert.id} className="space-y-1 text-sm">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <span className="font-semibold">{alert.message}</span>
+                        <span className="text-muted-foreground">{new Date(alert.raisedAt).toLocaleString()}</span>
+                      </div>
+                      <ul className="list-disc pl-5 text-muted-foreground">
+                        {alert.details.map((line) => <li key={line}>{line}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -1,13 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Link from 'next/link'
-import { Toaster, toast } from 'sonner'
+import { toast } from 'sonner'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Shield, Lock, Eye, AlertTriangle, Camera, Webhook, FileWarning, CheckCircle2, XCircle, AlertOctagon } from 'lucide-react'
 import { UrlScanner } from '@/components/url-scanner'
-import { env } from '@/config/env'
+import { AnalysisResults } from '@/components/analysis-results'
+import { TlsPanel } from '@/components/tls-panel'
+import { ReportExportActions } from '@/components/report-export-actions'
+import { SiteHeader } from '@/components/site-header'
+import { formatTitle } from '@/lib/analysis/format'
+import { analyzeWebsiteProgressively, type ScanOutcome, type ScanProgress } from '@/lib/analysis/run'
+import { unavailableCategories } from '@/lib/analysis/transform'
+import { statusForScore, type SafetyStatus, type Verdict } from '@/lib/analysis/verdict'
+import { isAbortError } from '@/lib/api/client'
+import { saveScan } from '@/lib/history/store'
+import { preflightUrl } from '@/lib/url/heuristics'
+import { InvalidUrlError } from '@/lib/url/normalize'
 import {
   Dialog,
   DialogContent,
@@ -17,181 +28,63 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog"
 
-import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card"
-
-interface SecurityIssue {
-  message: string;
-  severity: 'high' | 'medium' | 'low' | 'info';
-}
-
-interface AnalysisResult {
-  ssl: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  contentSecurity: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  vulnerabilities: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  phishing: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  malware: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  webAttacks: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  certificateTransparency: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-  libraries: {
-    score: number;
-    issues: SecurityIssue[];
-  };
-}
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 
 export default function Home() {
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
+  const [scan, setScan] = useState<ScanOutcome | null>(null)
+  const [progress, setProgress] = useState<ScanProgress | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [url, setUrl] = useState('')
   const [showSafetyDialog, setShowSafetyDialog] = useState(false)
-  const [safetyStatus, setSafetyStatus] = useState<{
-    status: 'safe' | 'caution' | 'unsafe',
-    title: string,
-    description: string
-  } | null>(null)
+  const [safetyStatus, setSafetyStatus] = useState<Verdict | null>(null)
+
+  // Controller of the scan in flight; a newer scan aborts and replaces it
+  const abortRef = useRef<AbortController | null>(null)
+  const urlRef = useRef(url)
+
+  useEffect(() => {
+    urlRef.current = url
+  }, [url])
+
+  // Leaving the page abandons whatever is still running
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const runScan = async (target: string) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    const isCurrent = () => abortRef.current === controller
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault()
     setIsLoading(true)
-    setAnalysisResult(null)
+    setScan(null)
+    setProgress(null)
 
     const loadingToast = toast.loading('Analyzing website security...', {
       description: 'Please wait while we check various security parameters.',
     })
 
     try {
-      const response = await fetch(`${env.apiHost}/check-website`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url }),
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          response.status === 404 ? 'Website not found'
-          : response.status === 429 ? 'Too many requests, please try again later'
-          : response.status === 400 ? 'Invalid URL format'
-          : 'Failed to analyze website'
-        );
-      }
-
-      const data = await response.json();
-      
-      // Transform the API response to match our interface
-      setAnalysisResult({
-        ssl: {
-          score: data.overall_score,
-          issues: Object.entries(data.security_headers).map(([header, value]) => ({
-            message: `${header}: ${String(value)}`,
-            severity: String(value) === 'Missing' ? 'high' : String(value).includes('Invalid') ? 'medium' : 'info'
-          })),
-        },
-        contentSecurity: {
-          score: data.overall_score,
-          issues: data.recommendations
-            .filter((rec: string) => rec.includes('CSP') || rec.includes('security'))
-            .map((rec: string) => ({
-              message: rec,
-              severity: rec.toLowerCase().includes('critical') ? 'high' : 
-                       rec.toLowerCase().includes('implement') ? 'medium' : 'low'
-            })),
-        },
-        vulnerabilities: {
-          score: data.overall_score,
-          issues: data.xss_check.issues.map((issue: string) => ({
-            message: issue,
-            severity: 'high'
-          })),
-        },
-        phishing: {
-          score: data.overall_score,
-          issues: data.phishing_check.suspicious_patterns.map((pattern: string) => ({
-            message: pattern,
-            severity: data.phishing_check.risk_level === 'high' ? 'high' : 
-                     data.phishing_check.risk_level === 'medium' ? 'medium' : 'low'
-          })),
-        },
-        malware: {
-          score: data.overall_score,
-          issues: data.malware_check.suspicious_patterns.map((pattern: string) => ({
-            message: pattern,
-            severity: data.malware_check.risk_level === 'high' ? 'high' : 
-                     data.malware_check.risk_level === 'medium' ? 'medium' : 'low'
-          })),
-        },
-        webAttacks: {
-          score: data.overall_score,
-          issues: data.csrf_check.issues.map((issue: string) => ({
-            message: issue,
-            severity: issue.includes('No CSRF protection') ? 'high' : 'medium'
-          })),
-        },
-        certificateTransparency: {
-          score: data.overall_score,
-          issues: [{
-            message: data.ct_check.ct_status,
-            severity: data.ct_check.ct_status.includes('Not found') ? 'high' : 'info'
-          }],
-        },
-        libraries: {
-          score: data.overall_score,
-          issues: data.recommendations
-            .filter((rec: string) => rec.includes('upgrade') || rec.includes('implement'))
-            .map((rec: string) => ({
-              message: rec,
-              severity: rec.toLowerCase().includes('critical') ? 'high' : 'medium'
-            })),
-        }
-      });
-
-      // Calculate website safety
-      const avgScore = Object.values(analysisResult || {}).reduce((acc, curr) => acc + curr.score, 0) / 8;
-      const hasHighSeverityIssues = Object.values(analysisResult || {}).some(
-        category => category.issues.some((issue: SecurityIssue) => issue.severity === 'high')
-      );
-      
-      // Set safety status and show dialog
-      if (avgScore >= 80 && !hasHighSeverityIssues) {
-        setSafetyStatus({
-          status: 'safe',
-          title: 'Website Appears Safe',
-          description: 'This website has good security practices in place. You can proceed with confidence.'
-        });
-      } else if (avgScore >= 60 && !hasHighSeverityIssues) {
-        setSafetyStatus({
-          status: 'caution',
-          title: 'Exercise Caution',
-          description: 'This website has some security concerns. Be careful when sharing sensitive information.'
+      const outcome = await analyzeWebsiteProgressively(target, (update) => {
+        if (!isCurrent()) return;
+        setProgress(update);
+        const states = Object.values(update.checks);
+        toast.loading('Analyzing website security...', {
+          description: `${states.filter((state) => state.status !== 'pending').length} of ${states.length} checks complete`,
+          id: loadingToast,
         });
-      } else {
-        setSafetyStatus({
-          status: 'unsafe',
-          title: 'Security Risks Detected',
-          description: 'This website has significant security issues. We strongly recommend against proceeding.'
+      }, { signal: controller.signal });
+      if (!isCurrent()) return;
+      setScan(outcome);
+      saveScan(outcome);
+
+      const unavailable = unavailableCategories(outcome.result);
+      if (unavailable.length > 0) {
+        toast.warning('Partial results', {
+          description: `Some checks could not be loaded: ${unavailable.map(formatTitle).join(', ')}.`,
         });
       }
+
+      setSafetyStatus(outcome.verdict);
       setShowSafetyDialog(true);
 
       toast.success('Analysis completed', {
@@ -199,28 +92,88 @@ export default function Home() {
         id: loadingToast,
       });
     } catch (error) {
+      if (isAbortError(error)) {
+        // A newer scan already owns the results area and its own toast
+        if (abortRef.current !== null) {
+          toast.dismiss(loadingToast);
+          return;
+        }
+        markPendingChecks('cancelled');
+        toast.info('Analysis cancelled', { id: loadingToast });
+        return;
+      }
+      if (!isCurrent()) return;
+
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-      
+      markPendingChecks('interrupted');
+
       toast.error('Analysis failed', {
         description: errorMessage,
         id: loadingToast,
         action: {
           label: 'Try Again',
-          onClick: () => handleSubmit(e),
+          onClick: () => runScan(urlRef.current),
         },
         duration: 5000,
       });
 
       console.error('Error analyzing website:', error);
     } finally {
-      setIsLoading(false)
+      if (isCurrent()) {
+        abortRef.current = null
+        setIsLoading(false)
+      }
     }
   }
 
-  const handleUrlDetected = (detectedUrl: string) => {
-    setUrl(detectedUrl)
+  // Keep whatever finished, but stop showing spinners for checks that never will
+  const markPendingChecks = (reason: string) => {
+    setProgress((current) => current && {
+      ...current,
+      checks: Object.fromEntries(Object.entries(current.checks).map(([key, state]) => [
+        key,
+        state.status === 'pending' ? { status: 'failed', error: reason } : state,
+      ])),
+    })
   }
 
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    try {
+      preflightUrl(url)
+    } catch (error) {
+      if (!(error instanceof InvalidUrlError)) throw error
+      toast.error('Invalid URL', { description: error.message })
+      return
+    }
+    void runScan(url)
+  }
+
+  // What will actually be scanned, with internationalized hosts decoded
+  const preview = useMemo(() => {
+    if (!url.trim()) return null
+    try {
+      return preflightUrl(url)
+    } catch {
+      return null
+    }
+  }, [url])
+
+  const handleCancel = () => {
+    const controller = abortRef.current
+    abortRef.current = null
+    controller?.abort()
+    setIsLoading(false)
+  }
+
+  // Partial results stay visible while a streamed scan is still running
+  const displayedResult = scan?.result ?? progress?.result
+  const displayedTls = scan?.tls ?? progress?.tls
+
+  const handleUrlDetected = useCallback((detectedUrl: string) => {
+    setUrl(detectedUrl)
+  }, [])
+
   return (
     <div className="flex flex-col min-h-screen">
       <Dialog open={showSafetyDialog} onOpenChange={setShowSafetyDialog}>
@@ -237,24 +190,15 @@ export default function Home() {
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
-            {analysisResult && (
+            {safetyStatus && (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span>Overall Security Score:</span>
-                  <span className={`font-bold ${
-                    (() => {
-                      const avgScore = Object.values(analysisResult).reduce((acc, curr) => acc + curr.score, 0) / 8;
-                      return avgScore >= 80 ? 'text-green-500' :
-                             avgScore >= 60 ? 'text-yellow-500' :
-                             'text-red-500';
-                    })()
-                  }`}>
-                    {Math.round(Object.values(analysisResult).reduce((acc, curr) => acc + curr.score, 0) / 8)}/100
+                  <span className={`font-bold ${getStatusColorClass(statusForScore(safetyStatus.score))}`}>
+                    {safetyStatus.score}/100
                   </span>
                 </div>
-                {Object.values(analysisResult).some(
-                  category => category.issues.some((issue: SecurityIssue) => issue.severity === 'high')
-                ) && (
+                {safetyStatus.hasHighSeverityIssues && (
                   <div className="text-red-500 flex items-center gap-2">
                     <AlertOctagon className="h-4 w-4" />
                     <span>Critical security issues detected</span>
@@ -274,32 +218,7 @@ export default function Home() {
         </DialogContent>
       </Dialog>
 
-      <Toaster 
-        position="top-center"
-        toastOptions={{
-          style: {
-            background: 'var(--background)',
-            color: 'var(--foreground)',
-            border: '1px solid var(--border)',
-          },
-          className: 'text-sm font-medium',
-        }}
-        closeButton
-      />
-      <header className="px-4 lg:px-6 h-14 flex items-center border-b">
-        <Link href="/" className="flex items-center justify-center">
-          <Shield className="h-6 w-6 text-primary" />
-          <span className="ml-2 text-lg font-bold">SecureCheck</span>
-        </Link>
-        <nav className="ml-auto flex gap-4 sm:gap-6">
-          <Link href="#features" className="text-sm font-medium hover:underline underline-offset-4">
-            Features
-          </Link>
-          <Link href="#" className="text-sm font-medium hover:underline underline-offset-4">
-            About
-          </Link>
-        </nav>
-      </header>
+      <SiteHeader />
 
       <main className="flex-1">
         <section className="w-full py-12 md:py-24 lg:py-32">
@@ -320,17 +239,32 @@ export default function Home() {
                       <Input
                         className="pr-12"
                         placeholder="Enter website URL"
-                        type="url"
+                        type="text"
+                        inputMode="url"
+                        autoCapitalize="none"
+                        spellCheck={false}
                         required
                         value={url}
                         onChange={(e) => setUrl(e.target.value)}
                       />
                       <UrlScanner onUrlDetected={handleUrlDetected} />
                     </div>
-                    <Button type="submit" disabled={isLoading}>
+                    {/* Submitting again while a scan runs restarts it with the new URL */}
+                    <Button type="submit">
                       {isLoading ? 'Analyzing...' : 'Analyze'}
                     </Button>
+                    {isLoading && (
+                      <Button type="button" variant="outline" onClick={handleCancel}>
+                        Cancel
+                      </Button>
+                    )}
                   </div>
+                  {preview && (
+                    <p className="mt-2 text-left text-xs text-muted-foreground break-all">
+                      Scanning {preview.url}
+                      {preview.displayHostname !== preview.hostname && ` (displayed as ${preview.displayHostname})`}
+                    </p>
+                  )}
                 </form>
               </div>
             </div>
@@ -338,46 +272,23 @@ export default function Home() {
         </section>
 
         {/* Analysis Results Section */}
-        {analysisResult && (
+        {displayedResult && (
           <section className="w-full py-12 md:py-24 lg:py-32">
             <div className="container px-4 md:px-6">
               <h2 className="text-3xl font-bold tracking-tighter sm:text-4xl md:text-5xl text-center mb-8">
                 Security Analysis Results
               </h2>
-              <div className="grid gap-6 lg:grid-cols-4">
-                {Object.entries(analysisResult).map(([key, data]) => (
-                  <Card key={key} className="overflow-hidden">
-                    <CardHeader className={`border-b ${getScoreColorClass(data.score)}`}>
-                      <CardTitle className="flex items-center gap-2">
-                        {getSecurityIcon(key)}
-                        {formatTitle(key)}
-                      </CardTitle>
-                      <CardDescription className="font-semibold">
-                        Score: {data.score}/100
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent className="pt-6">
-                      <div className="space-y-4">
-                        {data.issues.length === 0 ? (
-                          <div className="flex items-center gap-2 text-green-600">
-                            <CheckCircle2 className="h-5 w-5" />
-                            <span>No issues found</span>
-                          </div>
-                        ) : (
-                          <div className="space-y-3">
-                            {data.issues.map((issue: SecurityIssue, index: number) => (
-                              <div key={index} className={`flex items-start gap-2 ${getSeverityColorClass(issue.severity)}`}>
-                                {getSeverityIcon(issue.severity)}
-                                <span className="text-sm">{issue.message}</span>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+              {scan && (
+                <div className="flex justify-center mb-8">
+                  <ReportExportActions scan={scan} />
+                </div>
+              )}
+              <AnalysisResults result={displayedResult} checks={progress?.checks} />
+              {displayedTls && (
+                <div className="mt-6">
+                  <TlsPanel tls={displayedTls} asOf={scan?.scannedAt} />
+                </div>
+              )}
             </div>
           </section>
         )}
@@ -486,65 +397,13 @@ export default function Home() {
   )
 }
 
-const getScoreColorClass = (score: number) => {
-  if (score >= 90) return 'bg-green-50';
-  if (score >= 70) return 'bg-yellow-50';
-  return 'bg-red-50';
-};
-
-const getSeverityColorClass = (severity: string) => {
-  switch (severity) {
-    case 'high':
-      return 'text-red-600';
-    case 'medium':
-      return 'text-yellow-600';
-    case 'low':
-      return 'text-orange-600';
-    default:
-      return 'text-blue-600';
-  }
-};
-
-const getSeverityIcon = (severity: string) => {
-  switch (severity) {
-    case 'high':
-      return <XCircle className="h-5 w-5 shrink-0" />;
-    case 'medium':
-      return <AlertTriangle className="h-5 w-5 shrink-0" />;
-    case 'low':
-      return <AlertOctagon className="h-5 w-5 shrink-0" />;
-    default:
-      return <CheckCircle2 className="h-5 w-5 shrink-0" />;
-  }
-};
-
-const getSecurityIcon = (key: string) => {
-  switch (key) {
-    case 'ssl':
-      return <Lock className="h-5 w-5" />;
-    case 'contentSecurity':
-      return <Shield className="h-5 w-5" />;
-    case 'vulnerabilities':
-      return <AlertTriangle className="h-5 w-5" />;
-    case 'phishing':
-      return <Eye className="h-5 w-5" />;
-    case 'malware':
-      return <FileWarning className="h-5 w-5" />;
-    case 'webAttacks':
-      return <Webhook className="h-5 w-5" />;
-    case 'certificateTransparency':
-      return <CheckCircle2 className="h-5 w-5" />;
-    case 'libraries':
-      return <FileWarning className="h-5 w-5" />;
+const getStatusColorClass = (status: SafetyStatus) => {
+  switch (status) {
+    case 'safe':
+      return 'text-green-500';
+    case 'caution':
+      return 'text-yellow-500';
     default:
-      return <Shield className="h-5 w-5" />;
+      return 'text-red-500';
   }
 };
-
-const formatTitle = (key: string) => {
-  return key
-    .replace(/([A-Z])/g, ' $1')
-    .split(' ')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
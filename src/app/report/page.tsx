@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { RotateCw, ShieldQuestion } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SiteHeader } from '@/components/site-header'
+import { ScanReport } from '@/components/scan-report'
+import { analyzeWebsite, type ScanOutcome } from '@/lib/analysis/run'
+import { saveScan } from '@/lib/history/store'
+import { decodeSnapshot } from '@/lib/report/permalink'
+
+type ReportState =
+  | { status: 'loading' }
+  | { status: 'invalid' }
+  // `shared` until rescanned: the link's contents are whatever its sender put there
+  | { status: 'ready'; scan: ScanOutcome; shared: boolean }
+
+export default function ReportPage() {
+  const [state, setState] = useState<ReportState>({ status: 'loading' })
+  const [isRescanning, setIsRescanning] = useState(false)
+
+  useEffect(() => {
+    // The snapshot lives in the fragment, which browsers never send to the server
+    const load = async () => {
+      const snapshot = window.location.hash.slice(1)
+      const scan = snapshot ? await decodeSnapshot(snapshot) : null
+      setState(scan ? { status: 'ready', scan, shared: true } : { status: 'invalid' })
+    }
+    load()
+    window.addEventListener('hashchange', load)
+    return () => window.removeEventListener('hashchange', load)
+  }, [])
+
+  const handleRescan = async (url: string) => {
+    setIsRescanning(true)
+    const loadingToast = toast.loading('Rescanning...', { description: url })
+    try {
+      setState({ status: 'ready', scan: saveScan(await analyzeWebsite(url)), shared: false })
+      toast.success('Analysis completed', { description: url, id: loadingToast })
+    } catch (error) {
+      toast.error('Analysis failed', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+        id: loadingToast,
+      })
+    } finally {
+      setIsRescanning(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6">
+            {state.status === 'loading' && <p className="text-muted-foreground">Loading report...</p>}
+            {state.status === 'invalid' && (
+              <div className="space-y-2">
+                <h1 className="text-2xl font-bold">Report not found</h1>
+                <p className="text-muted-foreground">
+                  This report link is incomplete or damaged. Ask for the link again, or{' '}
+                  <Link href="/" className="underline underline-offset-4">run a new scan</Link>.
+                </p>
+              </div>
+            )}
+            {state.status === 'ready' && (
+              <div className="space-y-6">
+                {state.shared && (
+                  <div className="flex flex-wrap items-center gap-3 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+                    <ShieldQuestion className="h-5 w-5 shrink-0" />
+                    <p className="flex-1 min-w-60">
+                      <span className="font-semibold">Shared snapshot, not verified.</span> This report was taken{' '}
+                      {new Date(state.scan.scannedAt).toLocaleString()} and is read from the link itself, so anyone
+                      who passed it on could have changed its verdict or findings. Rescan to see the site as it is now.
+                    </p>
+                    <Button variant="outline" disabled={isRescanning} onClick={() => handleRescan(state.scan.url)}>
+                      <RotateCw className={isRescanning ? 'animate-spin' : undefined} />
+                      Rescan now
+                    </Button>
+                  </div>
+                )}
+                <ScanReport scan={state.scan} />
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
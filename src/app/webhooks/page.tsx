@@ -0,0 +1,277 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, Send, Trash2, Webhook } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { AdminTokenCard } from '@/components/admin-token-card'
+import { SiteHeader } from '@/components/site-header'
+import { ApiError } from '@/lib/api/client'
+import { cn } from '@/lib/utils'
+import { WEBHOOK_FORMATS, type WebhookFormat } from '@/lib/webhooks/payload'
+import { addWebhookTarget, fetchWebhooks, removeWebhookTarget, testWebhookTarget } from '@/lib/webhooks/client'
+import type { DeliveryRecord, DeliveryStatus, WebhookListing, WebhookTarget } from '@/lib/webhooks/targets'
+
+// Retries update the log in the background; pick up their progress while the page is open
+const REFRESH_MS = 10000
+
+const formatLabel = (format: WebhookFormat) => WEBHOOK_FORMATS.find((option) => option.value === format)?.label ?? format
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'An unexpected error occurred')
+
+const isUnauthorized = (error: unknown) => error instanceof ApiError && error.code === 'unauthorized'
+
+const statusClass: Record<DeliveryStatus, string> = {
+  pending: 'border-yellow-200 bg-yellow-50 text-yellow-700',
+  delivered: 'border-green-200 bg-green-50 text-green-700',
+  failed: 'border-red-200 bg-red-50 text-red-700',
+}
+
+function lastAttemptText(delivery: DeliveryRecord) {
+  const last = delivery.attempts.at(-1)
+  if (!last) return 'Not sent yet'
+  return last.status !== undefined ? `HTTP ${last.status} in ${last.durationMs} ms` : last.error ?? 'Request failed'
+}
+
+export default function WebhooksPage() {
+  const [state, setState] = useState<WebhookListing | null>(null)
+  const [needsToken, setNeedsToken] = useState(false)
+  // Shown once after adding a target; the server never returns the secret again
+  const [created, setCreated] = useState<WebhookTarget | null>(null)
+  const [url, setUrl] = useState('')
+  const [format, setFormat] = useState<WebhookFormat>('json')
+  const [isAdding, setIsAdding] = useState(false)
+  const [testingId, setTestingId] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setState(await fetchWebhooks())
+      setNeedsToken(false)
+    } catch (error) {
+      if (isUnauthorized(error)) {
+        setState(null)
+        setNeedsToken(true)
+        return
+      }
+      toast.error('Could not load webhooks', { description: errorMessage(error) })
+    }
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // Only poll while signed in, so a missing token does not keep failing in the background
+  useEffect(() => {
+    if (needsToken) return
+    const timer = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [needsToken, refresh])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsAdding(true)
+    try {
+      setCreated(await addWebhookTarget(url, format))
+      setUrl('')
+      await refresh()
+    } catch (error) {
+      toast.error('Could not add webhook', { description: errorMessage(error) })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleTest = async (id: string) => {
+    setTestingId(id)
+    try {
+      const delivery = await testWebhookTarget(id)
+      if (delivery.status === 'delivered') {
+        toast.success('Test delivered', { description: lastAttemptText(delivery) })
+      } else {
+        toast.error('Test delivery failed', { description: lastAttemptText(delivery) })
+      }
+      await refresh()
+    } catch (error) {
+      toast.error('Test delivery failed', { description: errorMessage(error) })
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeWebhookTarget(id)
+      await refresh()
+    } catch (error) {
+      toast.error('Could not remove webhook', { description: errorMessage(error) })
+    }
+  }
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret)
+      toast.success('Signing secret copied')
+    } catch {
+      toast.error('Could not copy to the clipboard')
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+
+      <main className="flex-1">
+        <section className="w-full py-12 md:py-16">
+          <div className="container px-4 md:px-6 space-y-6">
+            <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+              <Webhook className="h-7 w-7" />
+              Webhooks
+            </h1>
+            <p className="text-muted-foreground">
+              Every completed scan is posted to these addresses with its verdict, category scores and high severity
+              issues, as is every monitoring alert. Requests are signed with the target&apos;s secret; failed deliveries
+              are retried with backoff.
+            </p>
+
+            <AdminTokenCard
+              refusedMessage={needsToken ? "Managing webhooks needs the server's admin token." : undefined}
+              onSaved={refresh}
+            />
+
+            {created && (
+              <Card className="border-primary">
+                <CardHeader className="flex flex-row items-center gap-4 space-y-0 p-4">
+                  <div className="flex-1 min-w-0">
+                    <CardTitle className="text-base">Signing secret for {created.url}</CardTitle>
+                    <CardDescription className="break-all font-mono">{created.secret}</CardDescription>
+                    <p className="text-sm text-muted-foreground">Copy it now: it will not be shown again.</p>
+                  </div>
+                  <Button variant="ghost" size="icon" title="Copy signing secret" onClick={() => handleCopySecret(created.secret)}>
+                    <Copy />
+                  </Button>
+                  <Button variant="outline" onClick={() => setCreated(null)}>
+                    Done
+                  </Button>
+                </CardHeader>
+              </Card>
+            )}
+
+            <Card>
+              <CardContent className="pt-6">
+                <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+                  <Input
+                    type="url"
+                    autoCapitalize="none"
+                    spellCheck={false}
+                    placeholder="https://hooks.slack.com/services/..."
+                    className="flex-1 min-w-60"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={isAdding}
+                  />
+                  <select
+                    className="h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm"
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+                    disabled={isAdding}
+                  >
+                    {WEBHOOK_FORMATS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <Button type="submit" disabled={isAdding || needsToken || !url.trim()}>
+                    Add webhook
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {state && state.targets.length === 0 && (
+              <p className="text-muted-foreground">No webhooks yet.</p>
+            )}
+
+            {state && state.targets.length > 0 && (
+              <div className="space-y-3">
+                {state.targets.map((target) => (
+                  <Card key={target.id}>
+                    <CardHeader className="flex flex-row items-center gap-4 space-y-0 p-4">
+                      <div className="flex-1 min-w-0">
+                        <CardTitle className="truncate text-base">{target.url}</CardTitle>
+                        <CardDescription>
+                          {formatLabel(target.format)} · Added {new Date(target.createdAt).toLocaleString()}
+                        </CardDescription>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Send test"
+                        disabled={testingId !== null}
+                        onClick={() => handleTest(target.id)}
+                      >
+                        <Send className={testingId === target.id ? 'animate-pulse' : undefined} />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Remove webhook" onClick={() => handleRemove(target.id)}>
+                        <Trash2 />
+                      </Button>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {state && state.deliveries.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Delivery log</CardTitle>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Time</th>
+                        <th className="py-2 pr-4 font-medium">Target</th>
+                        <th className="py-2 pr-4 font-medium">Event</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium">Attempts</th>
+                        <th className="py-2 font-medium">Last response</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {state.deliveries.map((delivery) => (
+                        <tr key={delivery.id} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-4 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                          <td className="py-2 pr-4 max-w-56 truncate" title={delivery.targetUrl}>{delivery.targetUrl}</td>
+                          <td className="py-2 pr-4">
+                            <div>{delivery.event}</div>
+                            {delivery.scanUrl && <div className="text-muted-foreground">{delivery.scanUrl}</div>}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <span className={cn('rounded-md border px-2 py-0.5 text-xs font-semibold', statusClass[delivery.status])}>
+                              {delivery.status}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4">{delivery.attempts.length}</td>
+                          <td className="py-2">
+                            <div>{lastAttemptText(delivery)}</div>
+                            {delivery.nextAttemptAt && (
+                              <div className="text-muted-foreground">
+                                Retrying at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { KeyRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { getAdminToken, setAdminToken } from '@/lib/api/admin-token'
+
+interface AdminTokenCardProps {
+  // Shown under the form after the server refused the stored token
+  refusedMessage?: string
+  // Called once the typed token is stored for the session
+  onSaved: () => void | Promise<void>
+}
+
+export function AdminTokenCard({ refusedMessage, onSaved }: AdminTokenCardProps) {
+  const [token, setToken] = useState('')
+
+  useEffect(() => {
+    setToken(getAdminToken() ?? '')
+  }, [])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdminToken(token.trim())
+    await onSaved()
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-3">
+          <KeyRound className="h-5 w-5 text-muted-foreground" />
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="Admin token (ADMIN_API_TOKEN)"
+            className="flex-1 min-w-60"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            Use token
+          </Button>
+        </form>
+        {refusedMessage && <p className="mt-2 text-sm text-red-600">{refusedMessage}</p>}
+      </CardContent>
+    </Card>
+  )
+}
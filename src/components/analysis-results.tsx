@@ -0,0 +1,193 @@
+import { Lock, Shield, AlertTriangle, Eye, FileWarning, Webhook, CheckCircle2, XCircle, AlertOctagon, Loader2, Link2, Inbox } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { RemediationSnippets } from '@/components/remediation-snippets'
+import { formatTitle } from '@/lib/analysis/format'
+import { referenceLabel, referenceUrl } from '@/lib/analysis/rules'
+import type { CheckState } from '@/lib/api/client'
+import type { AnalysisResult, CategoryKey, SecurityIssue } from '@/lib/analysis/types'
+import { statusForScore, type SafetyStatus } from '@/lib/analysis/verdict'
+
+interface AnalysisResultsProps {
+  result: AnalysisResult
+  // Per-check progress while a streamed scan is still running
+  checks?: Partial<Record<CategoryKey, CheckState>>
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+export function AnalysisResults({ result, checks }: AnalysisResultsProps) {
+  return (
+    <div className="grid gap-6 lg:grid-cols-4">
+      {Object.entries(result).map(([key, data]) => {
+        const check = checks?.[key as CategoryKey]
+        const isPending = check?.status === 'pending'
+        const error = check?.status === 'failed' && check.error ? check.error : data.error
+        return (
+          <Card key={key} className="overflow-hidden">
+            <CardHeader className={`border-b ${isPending || error ? 'bg-muted' : scoreColorClass[statusForScore(data.score)]}`}>
+              <CardTitle className="flex items-center gap-2">
+                {getSecurityIcon(key)}
+                {formatTitle(key)}
+              </CardTitle>
+              <CardDescription className="font-semibold">
+                {isPending ? 'Running...' : error ? 'Score unavailable' : `Score: ${data.score}/100`}
+                {check?.durationMs !== undefined && (
+                  <span className="font-normal"> · {formatDuration(check.durationMs)}</span>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              <div className="space-y-4">
+                {isPending ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    <span className="text-sm">Check in progress</span>
+                  </div>
+                ) : error ? (
+                  <div className="flex items-start gap-2 text-muted-foreground">
+                    <AlertOctagon className="h-5 w-5 shrink-0" />
+                    <span className="text-sm">Data unavailable: {error}</span>
+                  </div>
+                ) : data.issues.length === 0 ? (
+                  <div className="flex items-center gap-2 text-green-600">
+                    <CheckCircle2 className="h-5 w-5" />
+                    <span>No issues found</span>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {data.issues.map((issue: SecurityIssue, index: number) => (
+                      <IssueItem key={index} issue={issue} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
+
+function IssueItem({ issue }: { issue: SecurityIssue }) {
+  const summary = (
+    <span className={`flex items-start gap-2 ${getSeverityColorClass(issue.severity)}`}>
+      {getSeverityIcon(issue.severity)}
+      <span className="text-sm">{issue.message}</span>
+    </span>
+  )
+  // Issues saved before the rule catalog existed have nothing more to show
+  if (!issue.ruleId && !issue.description) return summary
+
+  return (
+    <details className="group">
+      <summary className="cursor-pointer list-none">
+        {summary}
+        <span className="ml-7 mt-1 block text-xs text-muted-foreground underline-offset-4 group-open:hidden hover:underline">
+          Details
+        </span>
+      </summary>
+      <div className="ml-7 mt-2 space-y-2 text-sm">
+        {issue.title && (
+          <p className="font-medium">
+            {issue.title}
+            {issue.ruleId && <span className="ml-2 font-mono text-xs text-muted-foreground">{issue.ruleId}</span>}
+          </p>
+        )}
+        {issue.description && <p className="text-muted-foreground">{issue.description}</p>}
+        {issue.evidence && (
+          <pre className="overflow-x-auto rounded-md bg-muted px-3 py-2 text-xs">
+            <code>{issue.evidence}</code>
+          </pre>
+        )}
+        {issue.remediation && (
+          <p>
+            <span className="font-medium">Fix: </span>
+            {issue.remediation}
+          </p>
+        )}
+        {issue.snippets && <RemediationSnippets snippets={issue.snippets} />}
+        {issue.references && issue.references.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+            {issue.references.map((reference) => {
+              const url = referenceUrl(reference)
+              return url ? (
+                <a
+                  key={reference.id}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline-offset-4 hover:underline"
+                >
+                  {referenceLabel(reference)}
+                </a>
+              ) : (
+                <span key={reference.id}>{referenceLabel(reference)}</span>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </details>
+  )
+}
+
+// Tinted with the verdict's thresholds so each card agrees with the overall verdict
+const scoreColorClass: Record<SafetyStatus, string> = {
+  safe: 'bg-green-50',
+  caution: 'bg-yellow-50',
+  unsafe: 'bg-red-50',
+};
+
+export const getSeverityColorClass = (severity: string) => {
+  switch (severity) {
+    case 'high':
+      return 'text-red-600';
+    case 'medium':
+      return 'text-yellow-600';
+    case 'low':
+      return 'text-orange-600';
+    default:
+      return 'text-blue-600';
+  }
+};
+
+export const getSeverityIcon = (severity: string) => {
+  switch (severity) {
+    case 'high':
+      return <XCircle className="h-5 w-5 shrink-0" />;
+    case 'medium':
+      return <AlertTriangle className="h-5 w-5 shrink-0" />;
+    case 'low':
+      return <AlertOctagon className="h-5 w-5 shrink-0" />;
+    default:
+      return <CheckCircle2 className="h-5 w-5 shrink-0" />;
+  }
+};
+
+export const getSecurityIcon = (key: string) => {
+  switch (key) {
+    case 'urlHeuristics':
+      return <Link2 className="h-5 w-5" />;
+    case 'ssl':
+      return <Lock className="h-5 w-5" />;
+    case 'contentSecurity':
+      return <Shield className="h-5 w-5" />;
+    case 'vulnerabilities':
+      return <AlertTriangle className="h-5 w-5" />;
+    case 'phishing':
+      return <Eye className="h-5 w-5" />;
+    case 'malware':
+      return <FileWarning className="h-5 w-5" />;
+    case 'webAttacks':
+      return <Webhook className="h-5 w-5" />;
+    case 'certificateTransparency':
+      return <CheckCircle2 className="h-5 w-5" />;
+    case 'libraries':
+      return <FileWarning className="h-5 w-5" />;
+    case 'uncategorized':
+      return <Inbox className="h-5 w-5" />;
+    default:
+      return <Shield className="h-5 w-5" />;
+  }
+};
@@ -0,0 +1,57 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ConfigSnippets } from '@/lib/analysis/types'
+
+const PLATFORMS: { key: keyof ConfigSnippets; label: string }[] = [
+  { key: 'nginx', label: 'nginx' },
+  { key: 'apache', label: 'Apache' },
+  { key: 'nextjs', label: 'Next.js' },
+]
+
+interface RemediationSnippetsProps {
+  snippets: ConfigSnippets
+}
+
+export function RemediationSnippets({ snippets }: RemediationSnippetsProps) {
+  const [platform, setPlatform] = useState<keyof ConfigSnippets>('nginx')
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippets[platform])
+      toast.success('Snippet copied')
+    } catch (error) {
+      console.error('Error copying snippet:', error)
+      toast.error('Could not copy the snippet')
+    }
+  }
+
+  return (
+    <div className="rounded-md border bg-muted/50">
+      <div className="flex items-center justify-between border-b px-2 py-1">
+        <div className="flex gap-1">
+          {PLATFORMS.map(({ key, label }) => (
+            <Button
+              key={key}
+              variant={platform === key ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => setPlatform(key)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleCopy} aria-label="Copy snippet">
+          <Copy />
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-xs text-foreground">
+        <code>{snippets[platform]}</code>
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { toast } from 'sonner'
+import { FileJson, FileText, Link2, Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { downloadText, printHtml } from '@/lib/report/download'
+import { reportFilename, toHtmlReport, toJsonReport, toMarkdownReport } from '@/lib/report/export'
+import { reportPermalink } from '@/lib/report/permalink'
+
+interface ReportExportActionsProps {
+  scan: ScanOutcome
+}
+
+export function ReportExportActions({ scan }: ReportExportActionsProps) {
+  const handlePrint = () => {
+    if (!printHtml(toHtmlReport(scan))) {
+      toast.error('Could not open the print view', {
+        description: 'Allow pop-ups for this site and try again.',
+      })
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await reportPermalink(scan))
+      toast.success('Link copied', {
+        description: 'Anyone with the link sees this exact report.',
+      })
+    } catch (error) {
+      console.error('Error copying report link:', error)
+      toast.error('Could not copy the link')
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" onClick={handleCopyLink}>
+        <Link2 />
+        Copy link
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => downloadText(reportFilename(scan, 'json'), toJsonReport(scan), 'application/json')}
+      >
+        <FileJson />
+        Export JSON
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => downloadText(reportFilename(scan, 'md'), toMarkdownReport(scan), 'text/markdown')}
+      >
+        <FileText />
+        Export Markdown
+      </Button>
+      <Button variant="outline" size="sm" onClick={handlePrint}>
+        <Printer />
+        Print / PDF
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { ArrowRight, Minus, Plus } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getSecurityIcon, getSeverityColorClass } from '@/components/analysis-results'
+import { formatTitle } from '@/lib/analysis/format'
+import { hasChanges, type ResultDiff } from '@/lib/analysis/diff'
+import type { SecurityIssue } from '@/lib/analysis/types'
+
+interface ScanDiffProps {
+  diff: ResultDiff
+}
+
+export function ScanDiff({ diff }: ScanDiffProps) {
+  const changedCategories = diff.categories.filter(hasChanges)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-lg">
+        <span>Overall score:</span>
+        <span className="font-bold">{diff.overallBefore}</span>
+        <ArrowRight className="h-4 w-4" />
+        <span className="font-bold">{diff.overallAfter}</span>
+        <ScoreDelta before={diff.overallBefore} after={diff.overallAfter} />
+      </div>
+
+      {changedCategories.length === 0 ? (
+        <p className="text-muted-foreground">No differences between these scans.</p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {changedCategories.map((category) => (
+            <Card key={category.key}>
+              <CardHeader className="border-b">
+                <CardTitle className="flex items-center gap-2">
+                  {getSecurityIcon(category.key)}
+                  {formatTitle(category.key)}
+                </CardTitle>
+                <CardDescription className="flex items-center gap-2 font-semibold">
+                  Score: {category.scoreBefore}
+                  <ArrowRight className="h-3 w-3" />
+                  {category.scoreAfter}
+                  <ScoreDelta before={category.scoreBefore} after={category.scoreAfter} />
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6 space-y-3 text-sm">
+                {category.added.map((issue, index) => (
+                  <DiffLine key={`added-${index}`} label="New" issue={issue} icon={<Plus className="h-4 w-4 shrink-0" />} />
+                ))}
+                {category.changed.map(({ before, after }, index) => (
+                  <div key={`changed-${index}`} className="flex items-start gap-2">
+                    <ArrowRight className="h-4 w-4 shrink-0 text-blue-600" />
+                    <span>
+                      <span className="font-semibold">Changed: </span>
+                      <span className={getSeverityColorClass(before.severity)}>{before.message} ({before.severity})</span>
+                      {' → '}
+                      <span className={getSeverityColorClass(after.severity)}>{after.message} ({after.severity})</span>
+                    </span>
+                  </div>
+                ))}
+                {category.resolved.map((issue, index) => (
+                  <DiffLine key={`resolved-${index}`} label="Resolved" issue={issue} icon={<Minus className="h-4 w-4 shrink-0" />} resolved />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DiffLine({ label, issue, icon, resolved = false }: {
+  label: string
+  issue: SecurityIssue
+  icon: React.ReactNode
+  resolved?: boolean
+}) {
+  return (
+    <div className={`flex items-start gap-2 ${resolved ? 'text-green-600' : getSeverityColorClass(issue.severity)}`}>
+      {icon}
+      <span>
+        <span className="font-semibold">{label}: </span>
+        <span className={resolved ? 'line-through' : undefined}>{issue.message}</span>
+        {' '}({issue.severity})
+      </span>
+    </div>
+  )
+}
+
+function ScoreDelta({ before, after }: { before: number; after: number }) {
+  const delta = after - before
+  if (delta === 0) return null
+  return (
+    <span className={`text-sm font-semibold ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      ({delta > 0 ? '+' : ''}{delta})
+    </span>
+  )
+}
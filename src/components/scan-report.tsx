@@ -0,0 +1,32 @@
+import { AnalysisResults } from '@/components/analysis-results'
+import { ReportExportActions } from '@/components/report-export-actions'
+import { TlsPanel } from '@/components/tls-panel'
+import { VerdictBadge } from '@/components/verdict-badge'
+import type { ScanOutcome } from '@/lib/analysis/run'
+
+interface ScanReportProps {
+  scan: ScanOutcome
+}
+
+// A complete, self-describing report: what was scanned, when, and the verdict
+export function ScanReport({ scan }: ScanReportProps) {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold tracking-tighter break-all">{scan.url}</h1>
+        <p className="text-sm text-muted-foreground">
+          Scanned {new Date(scan.scannedAt).toLocaleString()}
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <VerdictBadge status={scan.verdict.status} />
+          <span className="font-semibold">{scan.verdict.title}</span>
+          <span className="text-muted-foreground">Overall score {scan.verdict.score}/100</span>
+        </div>
+        <p className="text-sm">{scan.verdict.description}</p>
+      </div>
+      <ReportExportActions scan={scan} />
+      <AnalysisResults result={scan.result} />
+      {scan.tls && <TlsPanel tls={scan.tls} asOf={scan.scannedAt} />}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import Link from 'next/link'
+import { Shield } from 'lucide-react'
+
+export function SiteHeader() {
+  return (
+    <header className="px-4 lg:px-6 h-14 flex items-center border-b">
+      <Link href="/" className="flex items-center justify-center">
+        <Shield className="h-6 w-6 text-primary" />
+        <span className="ml-2 text-lg font-bold">SecureCheck</span>
+      </Link>
+      <nav className="ml-auto flex gap-4 sm:gap-6">
+        <Link href="/#features" className="text-sm font-medium hover:underline underline-offset-4">
+          Features
+        </Link>
+        <Link href="/batch" className="text-sm font-medium hover:underline underline-offset-4">
+          Batch
+        </Link>
+        <Link href="/analyze" className="text-sm font-medium hover:underline underline-offset-4">
+          Offline
+        </Link>
+        <Link href="/monitoring" className="text-sm font-medium hover:underline underline-offset-4">
+          Monitoring
+        </Link>
+        <Link href="/webhooks" className="text-sm font-medium hover:underline underline-offset-4">
+          Webhooks
+        </Link>
+        <Link href="/history" className="text-sm font-medium hover:underline underline-offset-4">
+          History
+        </Link>
+        <Link href="#" className="text-sm font-medium hover:underline underline-offset-4">
+          About
+        </Link>
+      </nav>
+    </header>
+  )
+}
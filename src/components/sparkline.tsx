@@ -0,0 +1,52 @@
+import { cn } from '@/lib/utils'
+import type { ScorePoint } from '@/lib/monitoring/watchlist'
+
+interface SparklineProps {
+  points: ScorePoint[]
+  width?: number
+  height?: number
+  className?: string
+}
+
+const statusClass = {
+  safe: 'stroke-green-600 fill-green-600',
+  caution: 'stroke-yellow-500 fill-yellow-500',
+  unsafe: 'stroke-red-600 fill-red-600',
+}
+
+// Score trend on a fixed 0-100 scale, tinted by the latest verdict
+export function Sparkline({ points, width = 120, height = 32, className }: SparklineProps) {
+  if (points.length === 0) {
+    return <span className={cn('text-xs text-muted-foreground', className)}>No scans yet</span>
+  }
+
+  const padding = 2
+  const step = points.length > 1 ? (width - padding * 2) / (points.length - 1) : 0
+  const coordinates = points.map((point, index) => {
+    const x = points.length > 1 ? padding + index * step : width / 2
+    const y = padding + (1 - point.score / 100) * (height - padding * 2)
+    return [x, y] as const
+  })
+  const latest = points[points.length - 1]
+  const [lastX, lastY] = coordinates[coordinates.length - 1]
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={`Score trend over ${points.length} scans, latest ${latest.score}`}
+    >
+      <title>{points.map((point) => point.score).join(', ')}</title>
+      <polyline
+        points={coordinates.map(([x, y]) => `${x},${y}`).join(' ')}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        className={cn(statusClass[latest.status], 'fill-none')}
+      />
+      <circle cx={lastX} cy={lastY} r={2} className={cn(statusClass[latest.status], 'stroke-none')} />
+    </svg>
+  )
+}
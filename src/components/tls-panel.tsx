@@ -0,0 +1,147 @@
+import type { ReactNode } from 'react'
+import { FileBadge, KeyRound, ScrollText, ShieldCheck } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { daysUntil, isDeprecatedProtocol, isWeakCipherSuite, type SctDetails, type TlsDetails } from '@/lib/analysis/tls'
+
+interface TlsPanelProps {
+  tls: TlsDetails
+  // Days to expiry are counted from here, so saved scans show what was true when they ran
+  asOf?: string
+}
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString()
+
+const SCT_ORIGINS: Record<NonNullable<SctDetails['origin']>, string> = {
+  embedded: 'Embedded in certificate',
+  tls_extension: 'TLS extension',
+  ocsp: 'OCSP stapling',
+}
+
+function expiryLabel(days: number): { text: string; className: string } {
+  if (days < 0) return { text: `Expired ${-days} days ago`, className: 'text-red-600' }
+  if (days <= 14) return { text: `Expires in ${days} days`, className: 'text-red-600' }
+  if (days <= 30) return { text: `Expires in ${days} days`, className: 'text-yellow-600' }
+  return { text: `Expires in ${days} days`, className: 'text-green-600' }
+}
+
+export function TlsPanel({ tls, asOf = new Date().toISOString() }: TlsPanelProps) {
+  const [leaf] = tls.chain
+  const expiry = expiryLabel(daysUntil(leaf.validTo, asOf))
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="border-b bg-muted">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          TLS & Certificate
+        </CardTitle>
+        <CardDescription className="break-all">
+          {leaf.subject} · <span className={`font-semibold ${expiry.className}`}>{expiry.text}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 pt-6 md:grid-cols-2">
+        <Section icon={<FileBadge className="h-4 w-4" />} title="Certificate">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">Subject</dt>
+            <dd className="break-all">{leaf.subject}</dd>
+            <dt className="text-muted-foreground">Names</dt>
+            <dd className="break-all">{leaf.subjectAltNames.length > 0 ? leaf.subjectAltNames.join(', ') : 'None'}</dd>
+            <dt className="text-muted-foreground">Valid</dt>
+            <dd>{formatDate(leaf.validFrom)} to {formatDate(leaf.validTo)}</dd>
+            <dt className="text-muted-foreground">Key</dt>
+            <dd>{leaf.keyType} {leaf.keySize}-bit</dd>
+            {leaf.serialNumber && (
+              <>
+                <dt className="text-muted-foreground">Serial</dt>
+                <dd className="break-all font-mono text-xs">{leaf.serialNumber}</dd>
+              </>
+            )}
+            {leaf.fingerprintSha256 && (
+              <>
+                <dt className="text-muted-foreground">SHA-256</dt>
+                <dd className="break-all font-mono text-xs">{leaf.fingerprintSha256}</dd>
+              </>
+            )}
+          </dl>
+        </Section>
+
+        <Section icon={<ScrollText className="h-4 w-4" />} title="Issuer chain">
+          <ol className="space-y-2 text-sm">
+            {tls.chain.map((certificate, index) => (
+              <li key={index} className="border-l-2 pl-3">
+                <p className="break-all font-medium">{certificate.subject}</p>
+                <p className="text-xs text-muted-foreground">
+                  {index === 0 ? 'Leaf' : index === tls.chain.length - 1 ? 'Root' : 'Intermediate'}
+                  {' · '}{certificate.keyType} {certificate.keySize}-bit
+                  {' · '}until {formatDate(certificate.validTo)}
+                </p>
+                {index === tls.chain.length - 1 && certificate.issuer !== certificate.subject && (
+                  <p className="break-all text-xs text-muted-foreground">Issued by {certificate.issuer}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </Section>
+
+        <Section icon={<KeyRound className="h-4 w-4" />} title="Protocols">
+          <div className="flex flex-wrap gap-2 text-sm">
+            {tls.protocols.length === 0 && <span className="text-muted-foreground">None reported</span>}
+            {tls.protocols.map((protocol) => (
+              <span
+                key={protocol}
+                className={`rounded-md border px-2 py-0.5 ${isDeprecatedProtocol(protocol) ? 'border-red-200 text-red-600' : ''}`}
+              >
+                {protocol}
+                {isDeprecatedProtocol(protocol) && ' (deprecated)'}
+              </span>
+            ))}
+          </div>
+          <h4 className="mt-4 text-sm font-medium">Cipher suites</h4>
+          <ul className="space-y-1 font-mono text-xs">
+            {tls.cipherSuites.length === 0 && <li className="font-sans text-muted-foreground">None reported</li>}
+            {tls.cipherSuites.map((suite) => (
+              <li key={suite} className={`break-all ${isWeakCipherSuite(suite) ? 'text-red-600' : ''}`}>
+                {suite}
+                {isWeakCipherSuite(suite) && <span className="font-sans"> (weak)</span>}
+              </li>
+            ))}
+          </ul>
+        </Section>
+
+        <Section icon={<ScrollText className="h-4 w-4" />} title="Certificate Transparency">
+          {!tls.scts ? (
+            <p className="text-sm text-muted-foreground">The scanner did not report SCT details.</p>
+          ) : tls.scts.length === 0 ? (
+            <p className="text-sm text-red-600">No signed certificate timestamps were found.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {tls.scts.map((sct, index) => (
+                <li key={index}>
+                  <p className="font-medium">{sct.logName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(sct.timestamp).toLocaleString()}
+                    {sct.origin && ` · ${SCT_ORIGINS[sct.origin]}`}
+                    {sct.signatureAlgorithm && ` · ${sct.signatureAlgorithm}`}
+                  </p>
+                  <p className="break-all font-mono text-xs text-muted-foreground">{sct.logId}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </CardContent>
+    </Card>
+  )
+}
+
+function Section({ icon, title, children }: { icon: ReactNode; title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="flex items-center gap-2 font-semibold">
+        {icon}
+        {title}
+      </h3>
+      {children}
+    </section>
+  )
+}
@@ -1,10 +1,19 @@
 'use client'
 
 import { useState, useRef, useCallback, useEffect } from 'react'
-import { Camera, X } from 'lucide-react'
+import { Camera, ImageUp, QrCode, ScanText, X } from 'lucide-react'
 import { Button } from './ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
-import { createWorker } from 'tesseract.js'
+import { decodeImage, decodeVideoContinuously, urlFromCode } from '@/lib/scanner/code-reader'
+import { imageFromDataTransfer, loadImage, readFileAsDataUrl } from '@/lib/scanner/image'
+import { recognizeText, subscribeOcrProgress, warmUpOcr, type OcrProgress } from '@/lib/scanner/ocr'
+import { preprocessForOcr, URL_GUIDE_REGION, type Region } from '@/lib/scanner/preprocess'
+import { extractUrls, type UrlCandidate } from '@/lib/scanner/url-extraction'
+
+type ScanMode = 'code' | 'text'
+
+// How long to look for a QR code or barcode before falling back to text capture
+const CODE_SCAN_TIMEOUT_MS = 10000
 
 interface UrlScannerProps {
   onUrlDetected: (url: string) => void
@@ -14,9 +23,15 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const [stream, setStream] = useState<MediaStream | null>(null)
   const [capturedImage, setCapturedImage] = useState<string | null>(null)
   const [isCameraReady, setIsCameraReady] = useState(false)
+  const [mode, setMode] = useState<ScanMode>('code')
+  const [notice, setNotice] = useState<string | null>(null)
+  const [candidates, setCandidates] = useState<UrlCandidate[]>([])
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null)
+  const [isUploadedImage, setIsUploadedImage] = useState(false)
 
   // Start camera with rear-facing camera if available
   const startCamera = async () => {
@@ -46,7 +61,7 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
       }
     } catch (error) {
       console.error('Error accessing camera:', error)
-      alert('Unable to access camera. Please make sure you have granted camera permissions.')
+      setNotice('Camera unavailable. Upload, drop or paste a screenshot instead.')
     }
   }
 
@@ -60,13 +75,22 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
   }, [stream])
 
   const handleOpen = () => {
+    setMode('code')
+    setNotice(null)
+    setCandidates([])
     setIsOpen(true)
+    warmUpOcr()
     startCamera()
   }
 
-  const handleClose = () => {
+  const handleClose = useCallback(() => {
     setIsOpen(false)
     stopCamera()
+  }, [stopCamera])
+
+  const switchMode = (nextMode: ScanMode) => {
+    setMode(nextMode)
+    setNotice(null)
   }
 
   const captureImage = async () => {
@@ -97,6 +121,7 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
         // Verify that we got valid image data
         if (imageData && imageData.length > 100) {
           setCapturedImage(imageData)
+          setIsUploadedImage(false)
           // Only stop the camera after we've successfully captured the image
           stopCamera()
         } else {
@@ -117,42 +142,121 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
 
   const retakePhoto = () => {
     setCapturedImage(null)
+    setCandidates([])
     startCamera()
   }
 
-  const confirmImage = async () => {
-    if (capturedImage) {
-      try {
-        setIsProcessing(true);
+  const selectCandidate = (candidate: UrlCandidate) => {
+    onUrlDetected(candidate.url)
+    handleClose()
+  }
 
-        const worker = await createWorker();
-        await worker.loadLanguage('eng');
-        await worker.initialize('eng');
+  // Runs the still-image pipeline: QR/barcode first, then OCR on the text.
+  // Camera frames are cropped to the alignment guide before falling back to
+  // the whole frame.
+  const processImage = async (image: string, region?: Region) => {
+    try {
+      setIsProcessing(true);
+      setCandidates([]);
 
-        const { data: { text } } = await worker.recognize(capturedImage);
-        await worker.terminate();
+      const element = await loadImage(image);
+      const codeUrl = urlFromCode(decodeImage(element) ?? '');
+      if (codeUrl) {
+        onUrlDetected(codeUrl);
+        handleClose();
+        return;
+      }
 
-        // Extract URL from the recognized text
-        const urlRegex = /(https?:\/\/[^\s]+)/g;
-        const urlMatch = text.match(urlRegex);
+      let detected = extractUrls(await recognizeText(preprocessForOcr(element, region)));
+      if (detected.length === 0 && region) {
+        detected = extractUrls(await recognizeText(preprocessForOcr(element)));
+      }
 
-        if (urlMatch && urlMatch.length > 0) {
-          const detectedUrl = urlMatch[0];
-          console.log('Detected URL:', detectedUrl);
-          onUrlDetected(detectedUrl);
-          handleClose();
-        } else {
-          alert('No URL detected in the image. Please try again.');
-        }
-      } catch (error) {
-        console.error('Error recognizing URL:', error);
-        alert('Error recognizing URL. Please try again.');
-      } finally {
-        setIsProcessing(false);
+      if (detected.length === 1 && !detected[0].commaAsDot) {
+        selectCandidate(detected[0]);
+      } else if (detected.length > 0) {
+        // Let the user choose rather than guessing between several readings, or trusting a comma read as a dot
+        setCandidates(detected);
+      } else {
+        alert('No URL detected in the image. Please try again.');
       }
+    } catch (error) {
+      console.error('Error recognizing URL:', error);
+      alert('Error recognizing URL. Please try again.');
+    } finally {
+      setIsProcessing(false);
     }
   };
 
+  const confirmImage = () => {
+    if (capturedImage) processImage(capturedImage, isUploadedImage ? undefined : URL_GUIDE_REGION)
+  }
+
+  const handleImageFile = async (file: File) => {
+    try {
+      const image = await readFileAsDataUrl(file)
+      stopCamera()
+      setNotice(null)
+      setCapturedImage(image)
+      setIsUploadedImage(true)
+      await processImage(image)
+    } catch (error) {
+      console.error('Error reading image:', error)
+      setNotice('Could not read that image. Please try another file.')
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = imageFromDataTransfer(e.clipboardData)
+    if (file) {
+      e.preventDefault()
+      handleImageFile(file)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    const file = imageFromDataTransfer(e.dataTransfer)
+    if (file) handleImageFile(file)
+  }
+
+  // Surface OCR engine loading and recognition progress while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return
+    const unsubscribe = subscribeOcrProgress(setOcrProgress)
+    return () => {
+      unsubscribe()
+      setOcrProgress(null)
+    }
+  }, [isOpen])
+
+  // Continuously decode QR codes and barcodes from the live stream
+  useEffect(() => {
+    const video = videoRef.current
+    if (!isOpen || mode !== 'code' || !isCameraReady || capturedImage || !video) return
+
+    const stopDecoding = decodeVideoContinuously(video, (text) => {
+      const detectedUrl = urlFromCode(text)
+      if (detectedUrl) {
+        stopDecoding()
+        onUrlDetected(detectedUrl)
+        handleClose()
+      } else {
+        setNotice('Found a code, but it does not contain a web address.')
+      }
+    })
+
+    const fallbackTimer = setTimeout(() => {
+      setMode('text')
+      setNotice('No QR code found. Align the printed URL in the guide and capture it instead.')
+    }, CODE_SCAN_TIMEOUT_MS)
+
+    return () => {
+      stopDecoding()
+      clearTimeout(fallbackTimer)
+    }
+  }, [isOpen, mode, isCameraReady, capturedImage, onUrlDetected, handleClose])
+
   // Handle video stream ready state
   useEffect(() => {
     const video = videoRef.current
@@ -181,12 +285,58 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
       </Button>
 
       <Dialog open={isOpen} onOpenChange={handleClose}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-md" onPaste={handlePaste}>
           <DialogHeader>
             <DialogTitle>Scan URL</DialogTitle>
           </DialogHeader>
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === 'code' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => switchMode('code')}
+              disabled={isProcessing || !!capturedImage}
+            >
+              <QrCode className="h-4 w-4" />
+              QR / Barcode
+            </Button>
+            <Button
+              variant={mode === 'text' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => switchMode('text')}
+              disabled={isProcessing}
+            >
+              <ScanText className="h-4 w-4" />
+              Printed text
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing}
+            >
+              <ImageUp className="h-4 w-4" />
+              Upload image
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImageFile(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
           
-          <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+          <div
+            className="relative aspect-video w-full overflow-hidden rounded-lg bg-black"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+          >
             {!capturedImage ? (
               // Camera view
               <>
@@ -202,11 +352,21 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
                     video.play()
                   }}
                 />
-                {/* Overlay guide for URL alignment */}
+                {/* Overlay guide for code or URL alignment */}
                 <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="border-2 border-white border-dashed w-3/4 h-16 rounded-lg opacity-50 flex items-center justify-center">
-                    <span className="text-white text-sm">Align URL here</span>
-                  </div>
+                  {!stream ? (
+                    <span className="text-white/70 text-sm px-4 text-center">
+                      Drop, paste or upload a screenshot containing the link
+                    </span>
+                  ) : mode === 'code' ? (
+                    <div className="border-2 border-white border-dashed h-3/4 aspect-square rounded-lg opacity-50 flex items-center justify-center">
+                      <span className="text-white text-sm">Point at a QR code</span>
+                    </div>
+                  ) : (
+                    <div className="border-2 border-white border-dashed w-3/4 h-16 rounded-lg opacity-50 flex items-center justify-center">
+                      <span className="text-white text-sm">Align URL here</span>
+                    </div>
+                  )}
                 </div>
               </>
             ) : (
@@ -220,11 +380,45 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
             
             {isProcessing && (
               <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                <div className="text-white">Processing...</div>
+                <div className="text-white text-center">
+                  <div>{ocrProgress?.status === 'recognizing text' ? 'Reading text...' : 'Processing...'}</div>
+                  {ocrProgress && ocrProgress.progress < 1 && (
+                    <div className="text-xs opacity-80">
+                      {ocrProgress.status} ({Math.round(ocrProgress.progress * 100)}%)
+                    </div>
+                  )}
+                </div>
               </div>
             )}
           </div>
 
+          {candidates.length > 1 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Several addresses were found. Choose the one to check:</p>
+              {candidates.map((candidate) => (
+                <Button
+                  key={candidate.url}
+                  variant="outline"
+                  className="w-full justify-between"
+                  onClick={() => selectCandidate(candidate)}
+                >
+                  <span className="truncate">{candidate.url}</span>
+                  <span className="text-xs text-muted-foreground">{Math.round(candidate.confidence * 100)}%</span>
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {!isProcessing && ocrProgress && ocrProgress.status !== 'recognizing text' && ocrProgress.progress < 1 && (
+            <p className="text-xs text-muted-foreground">
+              Preparing text recognition: {ocrProgress.status} ({Math.round(ocrProgress.progress * 100)}%)
+            </p>
+          )}
+
+          {notice && (
+            <p className="text-sm text-muted-foreground">{notice}</p>
+          )}
+
           <div className="flex justify-between">
             <Button 
               variant="secondary" 
@@ -235,13 +429,20 @@ export function UrlScanner({ onUrlDetected }: UrlScannerProps) {
               {capturedImage ? 'Retake' : 'Cancel'}
             </Button>
             
-            <Button 
-              onClick={capturedImage ? confirmImage : captureImage}
-              disabled={isProcessing || (!capturedImage && !isCameraReady)}
-            >
-              <Camera className="mr-2 h-4 w-4" />
-              {capturedImage ? 'Confirm' : 'Capture'}
-            </Button>
+            {mode === 'code' && !capturedImage ? (
+              <Button variant="outline" onClick={() => switchMode('text')}>
+                <ScanText className="mr-2 h-4 w-4" />
+                Capture text instead
+              </Button>
+            ) : (
+              <Button 
+                onClick={capturedImage ? confirmImage : captureImage}
+                disabled={isProcessing || (!capturedImage && !isCameraReady)}
+              >
+                <Camera className="mr-2 h-4 w-4" />
+                {capturedImage ? 'Confirm' : 'Capture'}
+              </Button>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,33 @@
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { SafetyStatus } from '@/lib/analysis/verdict'
+
+const labels: Record<SafetyStatus, string> = {
+  safe: 'Safe',
+  caution: 'Caution',
+  unsafe: 'Unsafe',
+}
+
+interface VerdictBadgeProps {
+  status: SafetyStatus
+  className?: string
+}
+
+export function VerdictBadge({ status, className }: VerdictBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-semibold',
+        status === 'safe' && 'border-green-200 bg-green-50 text-green-700',
+        status === 'caution' && 'border-yellow-200 bg-yellow-50 text-yellow-700',
+        status === 'unsafe' && 'border-red-200 bg-red-50 text-red-700',
+        className
+      )}
+    >
+      {status === 'safe' && <CheckCircle2 className="h-3 w-3" />}
+      {status === 'caution' && <AlertTriangle className="h-3 w-3" />}
+      {status === 'unsafe' && <XCircle className="h-3 w-3" />}
+      {labels[status]}
+    </span>
+  )
+}
@@ -1,3 +1,29 @@
+export const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback
+}
+
+// Comma-separated list, e.g. "paypal, google"; empty entries are dropped
+export const listFromEnv = (value: string | undefined, fallback: string[]) => {
+  const items = (value ?? '').split(',').map((item) => item.trim().toLowerCase()).filter(Boolean)
+  return items.length > 0 ? items : fallback
+}
+
 export const env = {
-  apiHost: process.env.NEXT_PUBLIC_API_HOST || 'http://localhost:8001'
-} as const; 
\ No newline at end of file
+  scan: {
+    // Browser-side limit for a whole analysis, above the proxy's upstream timeout
+    timeoutMs: numberFromEnv(process.env.NEXT_PUBLIC_SCAN_TIMEOUT_MS, 90000),
+  },
+  heuristics: {
+    // Brands whose lookalike domains are flagged before the scan starts
+    brands: listFromEnv(process.env.NEXT_PUBLIC_HEURISTIC_BRANDS, [
+      'paypal', 'google', 'apple', 'microsoft', 'amazon', 'facebook', 'instagram',
+      'netflix', 'linkedin', 'dropbox', 'github', 'chase', 'wellsfargo', 'coinbase',
+    ]),
+  },
+  verdict: {
+    safeThreshold: numberFromEnv(process.env.NEXT_PUBLIC_VERDICT_SAFE_THRESHOLD, 80),
+    cautionThreshold: numberFromEnv(process.env.NEXT_PUBLIC_VERDICT_CAUTION_THRESHOLD, 60),
+    unsafeOnHighSeverity: process.env.NEXT_PUBLIC_VERDICT_UNSAFE_ON_HIGH !== 'false',
+  },
+} as const;
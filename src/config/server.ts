@@ -0,0 +1,42 @@
+import { numberFromEnv } from './env'
+
+// Settings for route handlers. Never import this from client components: the
+// backend host is deliberately not exposed to the browser.
+export const serverEnv = {
+  apiHost: process.env.API_HOST || process.env.NEXT_PUBLIC_API_HOST || 'http://localhost:8001',
+  upstreamTimeoutMs: numberFromEnv(process.env.UPSTREAM_TIMEOUT_MS, 60000),
+  cacheTtlSeconds: numberFromEnv(process.env.CHECK_CACHE_TTL_SECONDS, 300),
+  cacheMaxEntries: numberFromEnv(process.env.CHECK_CACHE_MAX_ENTRIES, 500),
+  rateLimitMax: numberFromEnv(process.env.RATE_LIMIT_MAX, 10),
+  rateLimitWindowSeconds: numberFromEnv(process.env.RATE_LIMIT_WINDOW_SECONDS, 60),
+  // Reverse proxies in front of the server that append to X-Forwarded-For. With 0 none
+  // are trusted and every caller (UI, batch, monitoring, /api/v1) shares one rate limit
+  trustedProxyHops: numberFromEnv(process.env.TRUSTED_PROXY_HOPS, 0),
+  // Bearer token for the admin routes (webhooks and monitoring); they refuse every request while unset
+  adminToken: process.env.ADMIN_API_TOKEN || undefined,
+  monitoring: {
+    enabled: process.env.MONITOR_ENABLED !== 'false',
+    // JSON file holding the watchlist, its score history and recent alerts
+    dataFile: process.env.MONITOR_DATA_FILE || '.data/monitoring.json',
+    // How often the scheduler looks for sites that are due a rescan
+    tickSeconds: numberFromEnv(process.env.MONITOR_TICK_SECONDS, 60),
+    // Every watched site is rescanned on the server's behalf, so the list is capped
+    maxSites: numberFromEnv(process.env.MONITOR_MAX_SITES, 50),
+    // Plain SMTP without TLS or auth, meant for a local relay such as Mailpit or MailHog
+    smtp: {
+      host: process.env.MONITOR_SMTP_HOST || undefined,
+      port: numberFromEnv(process.env.MONITOR_SMTP_PORT, 1025),
+      from: process.env.MONITOR_SMTP_FROM || 'securecheck@localhost',
+      to: (process.env.MONITOR_SMTP_TO ?? '').split(',').map((address) => address.trim()).filter(Boolean),
+    },
+  },
+  webhooks: {
+    // JSON file holding the webhook targets and the delivery log
+    dataFile: process.env.WEBHOOKS_DATA_FILE || '.data/webhooks.json',
+    // Tries per delivery, including the first
+    maxAttempts: numberFromEnv(process.env.WEBHOOK_MAX_ATTEMPTS, 5),
+    // Wait before the first retry when the target sends no Retry-After; doubles each retry
+    retryBaseDelayMs: numberFromEnv(process.env.WEBHOOK_RETRY_BASE_DELAY_MS, 2000),
+    timeoutMs: numberFromEnv(process.env.WEBHOOK_TIMEOUT_MS, 10000),
+  },
+} as const;
@@ -0,0 +1,17 @@
+import legacyBackend from './legacy-backend.json'
+import legacy from './legacy.json'
+import modern from './modern.json'
+
+// Backend responses recorded from real scans, trimmed to the sections the TLS
+// panel reads. `recorded_at` pins days-to-expiry to when they were captured.
+export interface TlsFixture {
+  url: string
+  recorded_at: string
+  response: unknown
+}
+
+export const TLS_FIXTURES: Record<string, TlsFixture> = {
+  modern,
+  legacy,
+  'legacy-backend': legacyBackend,
+}
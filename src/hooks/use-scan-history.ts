@@ -0,0 +1,15 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { listScans, subscribeHistory, type ScanRecord } from '@/lib/history/store'
+
+export function useScanHistory(): ScanRecord[] {
+  const [records, setRecords] = useState<ScanRecord[]>([])
+
+  useEffect(() => {
+    setRecords(listScans())
+    return subscribeHistory(() => setRecords(listScans()))
+  }, [])
+
+  return records
+}
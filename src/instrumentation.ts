@@ -0,0 +1,10 @@
+import { serverEnv } from '@/config/server'
+
+// Runs once when the server starts
+export async function register() {
+  // The scheduler needs Node APIs, and there is nothing to schedule in the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs' && serverEnv.monitoring.enabled) {
+    const { startScheduler } = await import('@/lib/monitoring/scheduler')
+    startScheduler()
+  }
+}
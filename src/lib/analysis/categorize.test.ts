@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { categorizeRecommendation } from './categorize'
+
+const categoryOf = (text: string, tags?: string[]) => categorizeRecommendation({ text, tags }).category
+
+describe('categorizeRecommendation', () => {
+  it('prefers a known tag over the text rules', () => {
+    expect(categoryOf('Add a Content-Security-Policy header', ['xss'])).toBe('vulnerabilities')
+    expect(categoryOf('Upgrade jQuery to latest', ['phishing'])).toBe('phishing')
+  })
+
+  it('uses the first known tag and ignores unknown ones', () => {
+    expect(categoryOf('Enable HSTS', ['misc', 'CSRF', 'csp'])).toBe('webAttacks')
+    expect(categoryOf('Enable HSTS', ['misc'])).toBe('ssl')
+  })
+
+  it('applies the text rules in order, the first match winning', () => {
+    // Matches both the CSP and header rules; CSP comes first
+    expect(categoryOf('Add a Content-Security-Policy header')).toBe('contentSecurity')
+    // "certificate transparency" is checked before the broader "certificate"
+    expect(categoryOf('Log the certificate to Certificate Transparency')).toBe('certificateTransparency')
+    expect(categoryOf('Renew the TLS certificate')).toBe('ssl')
+    // Matches both the XSS and library rules; XSS comes first
+    expect(categoryOf('Update the sanitizer to prevent XSS')).toBe('vulnerabilities')
+    expect(categoryOf('Upgrade jQuery to latest')).toBe('libraries')
+  })
+
+  it('falls back to uncategorized when nothing matches', () => {
+    expect(categoryOf('Consider a bug bounty programme')).toBe('uncategorized')
+    expect(categoryOf('Consider a bug bounty programme', ['unknown'])).toBe('uncategorized')
+  })
+
+  it('keeps the text as the issue message and marks critical advice as high severity', () => {
+    const { issue } = categorizeRecommendation({ text: 'Critical: upgrade Angular' })
+    expect(issue).toMatchObject({ ruleId: 'outdated-component', message: 'Critical: upgrade Angular', severity: 'high' })
+  })
+})
@@ -0,0 +1,82 @@
+import type { Recommendation } from '@/lib/api/check-website'
+import { ruleIssue, type RuleId } from './rules'
+import type { CategoryKey, SecurityIssue } from './types'
+
+// Every category a recommendation can land in; URL heuristics are computed locally
+export type RecommendationCategory = Exclude<CategoryKey, 'urlHeuristics'>
+
+interface CategoryRule {
+  category: RecommendationCategory
+  ruleId: RuleId
+}
+
+const CONTENT: CategoryRule = { category: 'contentSecurity', ruleId: 'csp-recommendation' }
+const TRANSPORT: CategoryRule = { category: 'ssl', ruleId: 'header-recommendation' }
+const XSS: CategoryRule = { category: 'vulnerabilities', ruleId: 'xss-recommendation' }
+const CSRF: CategoryRule = { category: 'webAttacks', ruleId: 'csrf-recommendation' }
+const CT: CategoryRule = { category: 'certificateTransparency', ruleId: 'ct-recommendation' }
+const LIBRARIES: CategoryRule = { category: 'libraries', ruleId: 'outdated-component' }
+const PHISHING: CategoryRule = { category: 'phishing', ruleId: 'recommendation' }
+const MALWARE: CategoryRule = { category: 'malware', ruleId: 'recommendation' }
+const UNCATEGORIZED: CategoryRule = { category: 'uncategorized', ruleId: 'recommendation' }
+
+// Tags the backend may attach to a recommendation. They take precedence over
+// the text rules below; unknown tags are ignored.
+const TAG_RULES: Record<string, CategoryRule> = {
+  csp: CONTENT,
+  'content-security': CONTENT,
+  tls: TRANSPORT,
+  ssl: TRANSPORT,
+  hsts: TRANSPORT,
+  header: TRANSPORT,
+  headers: TRANSPORT,
+  xss: XSS,
+  csrf: CSRF,
+  ct: CT,
+  'certificate-transparency': CT,
+  library: LIBRARIES,
+  libraries: LIBRARIES,
+  dependency: LIBRARIES,
+  outdated: LIBRARIES,
+  phishing: PHISHING,
+  malware: MALWARE,
+}
+
+// Matched against the text in order; the first match wins, so more specific
+// patterns come before broader ones ("certificate transparency" before "certificate")
+const TEXT_RULES: [RegExp, CategoryRule][] = [
+  [/\bcsp\b|content[- ]security[- ]policy/i, CONTENT],
+  [/certificate transparency|\bct logs?\b/i, CT],
+  [/\b(tls|ssl|https|hsts|certificate)\b|strict-transport-security|\bheaders?\b/i, TRANSPORT],
+  [/\bxss\b|cross[- ]site scripting|saniti[sz]/i, XSS],
+  [/\bcsrf\b|\bxsrf\b|cross[- ]site request forgery|samesite/i, CSRF],
+  [/\b(upgrade|update|outdated|librar(y|ies)|dependenc(y|ies))\b/i, LIBRARIES],
+  [/phish/i, PHISHING],
+  [/malware|malicious/i, MALWARE],
+]
+
+function ruleFor({ text, tags = [] }: Recommendation): CategoryRule {
+  for (const tag of tags) {
+    const rule = TAG_RULES[tag.toLowerCase()]
+    if (rule) return rule
+  }
+  return TEXT_RULES.find(([pattern]) => pattern.test(text))?.[1] ?? UNCATEGORIZED
+}
+
+/**
+ * Assigns a backend recommendation to exactly one category, first by its
+ * tags, then by the ordered text rules, falling back to "uncategorized".
+ * The same recommendation always lands in the same place.
+ */
+export function categorizeRecommendation(recommendation: Recommendation): {
+  category: RecommendationCategory
+  issue: SecurityIssue
+} {
+  const { category, ruleId } = ruleFor(recommendation)
+  return {
+    category,
+    issue: ruleIssue(ruleId, recommendation.text, {
+      severity: /\bcritical\b/i.test(recommendation.text) ? 'high' : undefined,
+    }),
+  }
+}
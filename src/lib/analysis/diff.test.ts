@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { diffResults, issueKey } from './diff'
+import { analyzeSecurityHeaders } from './headers'
+import { CATEGORY_KEYS, type AnalysisResult, type SecurityIssue } from './types'
+
+// A result whose header category holds `issues` and every other category is clean
+function resultWith(issues: SecurityIssue[]): AnalysisResult {
+  const result = Object.fromEntries(CATEGORY_KEYS.map((key) => [key, { score: 100, issues: [] }])) as unknown as AnalysisResult
+  return { ...result, ssl: { score: 100, issues } }
+}
+
+const sslDiff = (before: Record<string, string>, after: Record<string, string>) =>
+  diffResults(resultWith(analyzeSecurityHeaders(before)), resultWith(analyzeSecurityHeaders(after)))
+    .categories.find((category) => category.key === 'ssl')!
+
+describe('diffResults', () => {
+  it('resolves a missing header once it is set, without adding the header itself', () => {
+    const diff = sslDiff({ 'X-Frame-Options': 'Missing' }, { 'X-Frame-Options': 'DENY' })
+    expect(diff.resolved.map((issue) => issue.message)).toEqual(['X-Frame-Options: Missing'])
+    expect(diff.added).toEqual([])
+    expect(diff.changed).toEqual([])
+  })
+
+  it('reports a new header value for the same rule as a change', () => {
+    const diff = sslDiff(
+      { 'Strict-Transport-Security': 'max-age=3600; includeSubDomains' },
+      { 'Strict-Transport-Security': 'max-age=86400; includeSubDomains' }
+    )
+    expect(diff.added).toEqual([])
+    expect(diff.resolved).toEqual([])
+    expect(diff.changed.map(({ before, after }) => [before.message, after.message])).toEqual([[
+      'Strict-Transport-Security max-age is only 3600 seconds',
+      'Strict-Transport-Security max-age is only 86400 seconds',
+    ]])
+  })
+
+  it('pairs CSP findings whose nonce changes on every response', () => {
+    const csp = (nonce: string) => ({ 'Content-Security-Policy': `script-src 'nonce-${nonce}' https: *; frame-ancestors 'self'` })
+    const [before] = analyzeSecurityHeaders(csp('r4nd0m1'))
+    const [after] = analyzeSecurityHeaders(csp('x9y8z7w6'))
+    expect(issueKey(after)).toBe(issueKey(before))
+
+    const diff = sslDiff(csp('r4nd0m1'), csp('x9y8z7w6'))
+    expect(diff.added).toEqual([])
+    expect(diff.resolved).toEqual([])
+  })
+
+  it('tells findings of the same rule apart by their evidence', () => {
+    const xss = (evidence: string): SecurityIssue => ({ ruleId: 'xss', message: evidence, evidence, severity: 'high' })
+    const diff = diffResults(
+      { ...resultWith([]), vulnerabilities: { score: 70, issues: [xss('Reflected input in ?q')] } },
+      { ...resultWith([]), vulnerabilities: { score: 70, issues: [xss('Reflected input in ?id')] } }
+    ).categories.find((category) => category.key === 'vulnerabilities')!
+    expect(diff.added.map((issue) => issue.message)).toEqual(['Reflected input in ?id'])
+    expect(diff.resolved.map((issue) => issue.message)).toEqual(['Reflected input in ?q'])
+  })
+})
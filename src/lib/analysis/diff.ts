@@ -0,0 +1,78 @@
+import { headerOf } from './headers'
+import { overallScore } from './scoring'
+import { CATEGORY_KEYS, type AnalysisResult, type CategoryKey, type SecurityIssue } from './types'
+
+export interface ChangedIssue {
+  before: SecurityIssue
+  after: SecurityIssue
+}
+
+export interface CategoryDiff {
+  key: CategoryKey
+  scoreBefore: number
+  scoreAfter: number
+  added: SecurityIssue[]
+  resolved: SecurityIssue[]
+  changed: ChangedIssue[]
+}
+
+export interface ResultDiff {
+  overallBefore: number
+  overallAfter: number
+  categories: CategoryDiff[]
+}
+
+/**
+ * Identity used to pair issues across scans: the rule that raised the issue
+ * and what it was raised about. Header findings are matched on the header's
+ * name, not its value, so a new HSTS max-age or CSP nonce shows up as a change
+ * rather than a resolve plus an add. Other issues use their evidence, or their
+ * message when they have none or predate rules.
+ */
+export function issueKey(issue: SecurityIssue): string {
+  if (!issue.ruleId) return issue.message
+  return `${issue.ruleId}:${headerOf(issue) ?? issue.evidence ?? issue.message}`
+}
+
+// A header that is set correctly is not a finding to add or resolve
+const isFinding = (issue: SecurityIssue) => issue.ruleId !== 'header-present'
+
+function diffIssues(before: SecurityIssue[], after: SecurityIssue[]) {
+  const beforeByKey = new Map(before.map((issue) => [issueKey(issue), issue]))
+  const afterByKey = new Map(after.map((issue) => [issueKey(issue), issue]))
+
+  const added = after.filter((issue) => isFinding(issue) && !beforeByKey.has(issueKey(issue)))
+  const resolved = before.filter((issue) => isFinding(issue) && !afterByKey.has(issueKey(issue)))
+  const changed: ChangedIssue[] = []
+  for (const [key, previous] of beforeByKey) {
+    const current = afterByKey.get(key)
+    if (current && (current.severity !== previous.severity || current.message !== previous.message)) {
+      changed.push({ before: previous, after: current })
+    }
+  }
+  return { added, resolved, changed }
+}
+
+export function diffResults(before: AnalysisResult, after: AnalysisResult): ResultDiff {
+  return {
+    overallBefore: overallScore(before),
+    overallAfter: overallScore(after),
+    // A category only one of the scans has (e.g. from an older scan) is not comparable
+    categories: CATEGORY_KEYS.flatMap((key) => {
+      const previous = before[key]
+      const current = after[key]
+      if (!previous || !current) return []
+      return [{
+        key,
+        scoreBefore: previous.score,
+        scoreAfter: current.score,
+        ...diffIssues(previous.issues, current.issues),
+      }]
+    }),
+  }
+}
+
+export function hasChanges(diff: CategoryDiff): boolean {
+  return diff.scoreBefore !== diff.scoreAfter ||
+    diff.added.length > 0 || diff.resolved.length > 0 || diff.changed.length > 0
+}
@@ -0,0 +1,16 @@
+// Titles that the generic conversion below would get wrong
+const TITLES: Record<string, string> = {
+  urlHeuristics: 'URL Heuristics',
+  // Graded from the response headers; certificate details have their own panel
+  ssl: 'Security Headers',
+}
+
+// camelCase category key to display title, e.g. "webAttacks" -> "Web Attacks"
+export const formatTitle = (key: string) => {
+  if (TITLES[key]) return TITLES[key];
+  return key
+    .replace(/([A-Z])/g, ' $1')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
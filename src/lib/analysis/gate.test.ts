@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { validateCheckWebsiteResponse } from '@/lib/api/check-website'
+import { evaluateGate, parseGatePolicy } from './gate'
+import { toAnalysisResult } from './transform'
+import { CATEGORY_KEYS, type AnalysisResult, type SecurityIssue } from './types'
+import { computeVerdict, type VerdictPolicy } from './verdict'
+
+const policy: VerdictPolicy = { safeThreshold: 80, cautionThreshold: 60, unsafeOnHighSeverity: true }
+
+function resultWith(issues: SecurityIssue[] = []): AnalysisResult {
+  const result = Object.fromEntries(CATEGORY_KEYS.map((key) => [key, { score: 100, issues: [] }])) as unknown as AnalysisResult
+  return { ...result, vulnerabilities: { score: 100 - issues.length * 15, issues } }
+}
+
+const judged = (result: AnalysisResult) => ({ result, verdict: computeVerdict(result, policy) })
+
+const issue = (severity: SecurityIssue['severity']): SecurityIssue => ({ ruleId: 'xss', message: 'Finding', severity })
+
+describe('parseGatePolicy', () => {
+  it('accepts a valid policy and names the first invalid field', () => {
+    expect(parseGatePolicy({ minStatus: 'caution', minScore: 70, failOn: 'high' })).toEqual({ minStatus: 'caution', minScore: 70, failOn: 'high' })
+    expect(parseGatePolicy({ minStatus: 'fine' })).toMatch(/gate\.minStatus/)
+    expect(parseGatePolicy({ minScore: 101 })).toMatch(/gate\.minScore/)
+    expect(parseGatePolicy([])).toBe('"gate" must be an object')
+  })
+})
+
+describe('evaluateGate', () => {
+  it('passes a complete scan that meets every rule', () => {
+    expect(evaluateGate(judged(resultWith()), { minStatus: 'caution', minScore: 90, failOn: 'high' }))
+      .toEqual({ passed: true, failures: [], unavailable: [] })
+  })
+
+  it('fails on a worse verdict, a low score or an issue at the failOn severity or worse', () => {
+    const scan = judged(resultWith([issue('high')]))
+    expect(evaluateGate(scan, { minStatus: 'caution' }).failures).toEqual(['Verdict is unsafe, worse than caution'])
+    expect(evaluateGate(scan, { minScore: 100 }).failures).toEqual([`Score ${scan.verdict.score} is below 100`])
+    expect(evaluateGate(scan, { failOn: 'medium' }).failures).toEqual(['1 issue of medium severity or worse'])
+    expect(evaluateGate(judged(resultWith([issue('low')])), { failOn: 'medium' }).passed).toBe(true)
+  })
+
+  it('fails when checks could not run, even though the verdict looks safe', () => {
+    const result = toAnalysisResult(validateCheckWebsiteResponse({ overall_score: 90, recommendations: [] }))
+    const gate = evaluateGate(judged(result), { minStatus: 'caution' })
+    expect(gate.passed).toBe(false)
+    expect(gate.unavailable).toEqual(['ssl', 'vulnerabilities', 'phishing', 'malware', 'webAttacks', 'certificateTransparency'])
+    expect(gate.failures).toEqual([expect.stringMatching(/^6 checks could not run: Security Headers, /)])
+  })
+})
@@ -0,0 +1,73 @@
+import { formatTitle } from './format'
+import type { ScanOutcome } from './run'
+import { unavailableCategories } from './transform'
+import { categoryEntries, SEVERITIES, type CategoryKey, type Severity } from './types'
+import { SAFETY_STATUSES, type SafetyStatus } from './verdict'
+
+// Pass/fail rules for CI pipelines, applied by POST /api/v1/scan
+
+export interface GatePolicy {
+  // Fail when the verdict is worse than this, e.g. "caution" fails unsafe sites
+  minStatus?: SafetyStatus
+  // Fail when the overall score is below this
+  minScore?: number
+  // Fail on any finding of this severity or worse
+  failOn?: Severity
+}
+
+export interface GateResult {
+  passed: boolean
+  // Why the gate failed, one line per broken rule
+  failures: string[]
+  // Categories whose checks could not run. The score and verdict leave them
+  // out, so any of these fails the gate: an incomplete scan proves nothing.
+  unavailable: CategoryKey[]
+}
+
+const isSafetyStatus = (value: unknown): value is SafetyStatus =>
+  SAFETY_STATUSES.includes(value as SafetyStatus)
+
+const isSeverity = (value: unknown): value is Severity => SEVERITIES.includes(value as Severity)
+
+/**
+ * Checks a policy from a request body. Returns the policy, or a message
+ * naming the first invalid field.
+ */
+export function parseGatePolicy(value: unknown): GatePolicy | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return '"gate" must be an object'
+  const { minStatus, minScore, failOn } = value as Record<string, unknown>
+  if (minStatus !== undefined && !isSafetyStatus(minStatus)) {
+    return `"gate.minStatus" must be one of ${SAFETY_STATUSES.join(', ')}`
+  }
+  if (minScore !== undefined && (typeof minScore !== 'number' || minScore < 0 || minScore > 100)) {
+    return '"gate.minScore" must be a number from 0 to 100'
+  }
+  if (failOn !== undefined && !isSeverity(failOn)) {
+    return `"gate.failOn" must be one of ${SEVERITIES.join(', ')}`
+  }
+  return { minStatus, minScore, failOn }
+}
+
+export function evaluateGate({ result, verdict }: Pick<ScanOutcome, 'result' | 'verdict'>, policy: GatePolicy): GateResult {
+  const failures: string[] = []
+  const unavailable = unavailableCategories(result)
+  if (unavailable.length > 0) {
+    failures.push(`${unavailable.length} ${unavailable.length === 1 ? 'check' : 'checks'} could not run: ${unavailable.map(formatTitle).join(', ')}`)
+  }
+  if (policy.minStatus && SAFETY_STATUSES.indexOf(verdict.status) > SAFETY_STATUSES.indexOf(policy.minStatus)) {
+    failures.push(`Verdict is ${verdict.status}, worse than ${policy.minStatus}`)
+  }
+  if (policy.minScore !== undefined && verdict.score < policy.minScore) {
+    failures.push(`Score ${verdict.score} is below ${policy.minScore}`)
+  }
+  if (policy.failOn) {
+    const gated = SEVERITIES.slice(0, SEVERITIES.indexOf(policy.failOn) + 1)
+    const count = categoryEntries(result)
+      .flatMap(([, category]) => category.issues)
+      .filter((issue) => gated.includes(issue.severity)).length
+    if (count > 0) {
+      failures.push(`${count} ${count === 1 ? 'issue' : 'issues'} of ${policy.failOn} severity${policy.failOn === 'high' ? '' : ' or worse'}`)
+    }
+  }
+  return { passed: failures.length === 0, failures, unavailable }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeSecurityHeaders } from './headers'
+
+const cspRules = (policy: string) =>
+  analyzeSecurityHeaders({ 'Content-Security-Policy': `${policy}; frame-ancestors 'self'` }).map((issue) => issue.ruleId)
+
+describe('analyzeSecurityHeaders', () => {
+  it("accepts the strict CSP fallback sources next to 'strict-dynamic' and a nonce or hash", () => {
+    expect(cspRules("script-src 'nonce-r4nd0m' 'strict-dynamic' https: 'unsafe-inline'")).toEqual(['header-present'])
+    expect(cspRules("script-src 'sha256-abc=' 'strict-dynamic' http: https: 'unsafe-inline'")).toEqual(['header-present'])
+  })
+
+  it("still flags wildcard sources without 'strict-dynamic', or without a nonce or hash", () => {
+    expect(cspRules("script-src 'nonce-r4nd0m' https:")).toEqual(['csp-wildcard-source'])
+    expect(cspRules("script-src 'strict-dynamic' https: 'unsafe-inline'")).toEqual(['csp-unsafe-inline', 'csp-wildcard-source'])
+  })
+
+  it('grades a missing header with a fix', () => {
+    const [issue] = analyzeSecurityHeaders({ 'Strict-Transport-Security': 'Missing' })
+    expect(issue).toMatchObject({ ruleId: 'hsts-missing', severity: 'high' })
+    expect(issue.snippets?.nginx).toContain('Strict-Transport-Security')
+  })
+})
@@ -0,0 +1,369 @@
+import { ruleIssue, type RuleId } from './rules'
+import type { ConfigSnippets, SecurityIssue } from './types'
+
+// Grades the response headers reported by the backend. Headers are only
+// judged when the backend reported them; "Missing" marks an absent header.
+
+const MISSING = 'missing'
+
+// HSTS max-age below this (180 days) is considered too short to be effective
+const MIN_HSTS_MAX_AGE = 15552000
+// Required by the HSTS preload list
+const PRELOAD_MAX_AGE = 31536000
+
+const RECOMMENDED_CSP = "default-src 'self'; script-src 'self'; object-src 'none'; base-uri 'self'; frame-ancestors 'self'"
+const RECOMMENDED_HSTS = 'max-age=63072000; includeSubDomains; preload'
+const RECOMMENDED_PERMISSIONS = 'camera=(), microphone=(), geolocation=(), payment=()'
+
+/**
+ * Configuration snippets that set `name` to `value` on every response.
+ */
+export function snippetsFor(name: string, value: string): ConfigSnippets {
+  const quoted = value.replace(/"/g, '\\"')
+  return {
+    nginx: `add_header ${name} "${quoted}" always;`,
+    apache: `Header always set ${name} "${quoted}"`,
+    nextjs: [
+      '// next.config.js',
+      'async headers() {',
+      '  return [{',
+      "    source: '/(.*)',",
+      `    headers: [{ key: '${name}', value: ${JSON.stringify(value)} }],`,
+      '  }]',
+      '}',
+    ].join('\n'),
+  }
+}
+
+interface Fix {
+  header: string
+  value: string
+}
+
+const finding = (
+  ruleId: RuleId,
+  message: string,
+  { evidence, fix }: { evidence?: string; fix?: Fix } = {}
+): SecurityIssue => ruleIssue(ruleId, message, {
+  evidence,
+  snippets: fix && snippetsFor(fix.header, fix.value),
+})
+
+const present = (header: string, value: string): SecurityIssue =>
+  ruleIssue('header-present', `${header}: ${value}`, { evidence: `${header}: ${value}` })
+
+export type CspPolicy = Map<string, string[]>
+
+export function parseCsp(value: string): CspPolicy {
+  const policy: CspPolicy = new Map()
+  for (const part of value.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/)
+    // Browsers ignore repeated directives, so the first one wins
+    if (name && !policy.has(name.toLowerCase())) policy.set(name.toLowerCase(), sources)
+  }
+  return policy
+}
+
+const serializeCsp = (policy: CspPolicy) =>
+  [...policy].map(([name, sources]) => [name, ...sources].join(' ')).join('; ')
+
+const withDirective = (policy: CspPolicy, name: string, sources: string[]) => {
+  const updated = new Map(policy)
+  updated.set(name, sources)
+  return serializeCsp(updated)
+}
+
+// The directive browsers apply to scripts, null when the policy leaves them unrestricted
+export const scriptDirectiveOf = (policy: CspPolicy) =>
+  policy.has('script-src') ? 'script-src' : policy.has('default-src') ? 'default-src' : null
+
+const WILDCARD_SOURCES = new Set(['*', 'http:', 'https:', 'data:'])
+
+function gradeCsp(value: string, headers: Map<string, string>): SecurityIssue[] {
+  const header = 'Content-Security-Policy'
+  if (value.toLowerCase() === MISSING) {
+    return [finding('csp-missing', `${header}: Missing`, { fix: { header, value: RECOMMENDED_CSP } })]
+  }
+
+  const policy = parseCsp(value)
+  const issues: SecurityIssue[] = []
+  const scriptDirective = scriptDirectiveOf(policy)
+
+  if (!scriptDirective) {
+    issues.push(finding('csp-no-script-restriction', `${header} does not restrict scripts`, {
+      evidence: `${header}: ${value}`,
+      fix: { header, value: withDirective(policy, 'default-src', ["'self'"]) },
+    }))
+  } else {
+    const sources = policy.get(scriptDirective) ?? []
+    const lowered = sources.map((source) => source.toLowerCase())
+    const evidence = [scriptDirective, ...sources].join(' ')
+    // A nonce or hash makes browsers ignore 'unsafe-inline'
+    const hasNonceOrHash = lowered.some((source) => /^'(nonce|sha256|sha384|sha512)-/.test(source))
+    // Strict CSP: with 'strict-dynamic' browsers also ignore host and scheme sources,
+    // which are only there as a fallback for browsers that predate it
+    const strictDynamic = hasNonceOrHash && lowered.includes("'strict-dynamic'")
+
+    if (lowered.includes("'unsafe-inline'") && !hasNonceOrHash) {
+      issues.push(finding('csp-unsafe-inline', `${header} allows inline scripts ('unsafe-inline' in ${scriptDirective})`, {
+        evidence,
+        fix: { header, value: withDirective(policy, scriptDirective, sources.filter((source) => source.toLowerCase() !== "'unsafe-inline'")) },
+      }))
+    }
+    if (lowered.includes("'unsafe-eval'")) {
+      issues.push(finding('csp-unsafe-eval', `${header} allows eval() ('unsafe-eval' in ${scriptDirective})`, {
+        evidence,
+        fix: { header, value: withDirective(policy, scriptDirective, sources.filter((source) => source.toLowerCase() !== "'unsafe-eval'")) },
+      }))
+    }
+    const wildcards = sources.filter((source) => WILDCARD_SOURCES.has(source.toLowerCase()))
+    if (wildcards.length > 0 && !strictDynamic) {
+      const kept = sources.filter((source) => !wildcards.includes(source))
+      issues.push(finding('csp-wildcard-source', `${header} allows scripts from any origin (${wildcards.join(' ')} in ${scriptDirective})`, {
+        evidence,
+        fix: { header, value: withDirective(policy, scriptDirective, kept.includes("'self'") ? kept : ["'self'", ...kept]) },
+      }))
+    }
+  }
+
+  const styleSources = policy.get('style-src') ?? []
+  if (styleSources.some((source) => source.toLowerCase() === "'unsafe-inline'")) {
+    issues.push(finding('csp-inline-styles', `${header} allows inline styles ('unsafe-inline' in style-src)`, {
+      evidence: ['style-src', ...styleSources].join(' '),
+    }))
+  }
+
+  const frameOptions = headers.get('x-frame-options')
+  if (!policy.has('frame-ancestors') && (!frameOptions || frameOptions.toLowerCase() === MISSING)) {
+    issues.push(finding('csp-no-frame-ancestors', `${header} has no frame-ancestors directive`, {
+      evidence: `${header}: ${value}`,
+      fix: { header, value: withDirective(policy, 'frame-ancestors', ["'self'"]) },
+    }))
+  }
+
+  return issues.length > 0 ? issues : [present(header, value)]
+}
+
+function gradeHsts(value: string): SecurityIssue[] {
+  const header = 'Strict-Transport-Security'
+  const fix = { header, value: RECOMMENDED_HSTS }
+  if (value.toLowerCase() === MISSING) {
+    return [finding('hsts-missing', `${header}: Missing`, { fix })]
+  }
+
+  const evidence = `${header}: ${value}`
+  const directives = value.toLowerCase().split(';').map((part) => part.trim())
+  const maxAgeMatch = directives.map((part) => part.match(/^max-age\s*=\s*"?(\d+)"?$/)).find(Boolean)
+  const maxAge = Number(maxAgeMatch?.[1])
+  const includesSubdomains = directives.includes('includesubdomains')
+  const issues: SecurityIssue[] = []
+
+  if (!maxAgeMatch) {
+    return [finding('hsts-invalid', `${header} has no valid max-age`, { evidence, fix })]
+  }
+  if (maxAge === 0) {
+    return [finding('hsts-disabled', `${header} sets max-age=0, which disables HSTS`, { evidence, fix })]
+  }
+  if (maxAge < MIN_HSTS_MAX_AGE) {
+    issues.push(finding('hsts-short-max-age', `${header} max-age is only ${maxAge} seconds`, { evidence, fix }))
+  }
+  if (!includesSubdomains) {
+    issues.push(finding('hsts-no-subdomains', `${header} does not include subdomains`, { evidence, fix }))
+  }
+  if (!directives.includes('preload') && includesSubdomains && maxAge >= PRELOAD_MAX_AGE) {
+    issues.push(finding('hsts-not-preloaded', `${header} is not marked for preloading`, { evidence, fix }))
+  }
+
+  return issues.length > 0 ? issues : [present(header, value)]
+}
+
+const REFERRER_POLICIES = new Set([
+  'no-referrer', 'no-referrer-when-downgrade', 'origin', 'origin-when-cross-origin',
+  'same-origin', 'strict-origin', 'strict-origin-when-cross-origin', 'unsafe-url',
+])
+
+function gradeReferrerPolicy(value: string): SecurityIssue[] {
+  const header = 'Referrer-Policy'
+  const fix = { header, value: 'strict-origin-when-cross-origin' }
+  if (value.toLowerCase() === MISSING) {
+    return [finding('referrer-policy-missing', `${header}: Missing`, { fix })]
+  }
+
+  const evidence = `${header}: ${value}`
+  // Several comma-separated values are allowed; the last one the browser supports wins
+  const policies = value.toLowerCase().split(',').map((part) => part.trim()).filter(Boolean)
+  const effective = [...policies].reverse().find((policy) => REFERRER_POLICIES.has(policy))
+  if (!effective) {
+    return [finding('referrer-policy-invalid', `${header} has no recognized value ("${value}")`, { evidence, fix })]
+  }
+  if (effective === 'unsafe-url') {
+    return [finding('referrer-policy-unsafe-url', `${header} is unsafe-url`, { evidence, fix })]
+  }
+  if (effective === 'no-referrer-when-downgrade') {
+    return [finding('referrer-policy-downgrade', `${header} is no-referrer-when-downgrade`, { evidence, fix })]
+  }
+  return [present(header, value)]
+}
+
+// Features worth flagging when granted to every origin
+const SENSITIVE_FEATURES = ['camera', 'microphone', 'geolocation', 'payment', 'usb', 'display-capture']
+
+function gradePermissionsPolicy(value: string): SecurityIssue[] {
+  const header = 'Permissions-Policy'
+  const fix = { header, value: RECOMMENDED_PERMISSIONS }
+  if (value.toLowerCase() === MISSING) {
+    return [finding('permissions-policy-missing', `${header}: Missing`, { fix })]
+  }
+
+  const features = new Map<string, string>()
+  for (const part of value.split(',')) {
+    const match = part.trim().match(/^([a-z-]+)\s*=\s*(.*)$/i)
+    if (!match) {
+      // Feature-Policy syntax, e.g. "camera 'none'", is ignored by browsers here
+      return [finding('permissions-policy-invalid', `${header} could not be parsed ("${part.trim()}")`, {
+        evidence: `${header}: ${value}`,
+        fix,
+      })]
+    }
+    features.set(match[1].toLowerCase(), match[2].trim())
+  }
+
+  const open = SENSITIVE_FEATURES.filter((feature) => features.get(feature) === '*')
+  if (open.length > 0) {
+    const fixed = [...features].map(([feature, allowlist]) => `${feature}=${open.includes(feature) ? '(self)' : allowlist}`).join(', ')
+    return [finding('permissions-policy-open-feature', `${header} grants ${open.join(', ')} to every origin`, {
+      evidence: open.map((feature) => `${feature}=*`).join(', '),
+      fix: { header, value: fixed },
+    })]
+  }
+  return [present(header, value)]
+}
+
+interface IsolationHeader {
+  header: string
+  ruleId: RuleId
+  // Values that isolate, the recommended one first
+  safe: string[]
+  // Values that are valid but opt out of the protection
+  weak: string[]
+}
+
+const ISOLATION_HEADERS: Record<string, IsolationHeader> = {
+  'cross-origin-opener-policy': {
+    header: 'Cross-Origin-Opener-Policy',
+    ruleId: 'coop-missing',
+    safe: ['same-origin', 'same-origin-allow-popups', 'noopener-allow-popups'],
+    weak: ['unsafe-none'],
+  },
+  'cross-origin-embedder-policy': {
+    header: 'Cross-Origin-Embedder-Policy',
+    ruleId: 'coep-missing',
+    safe: ['require-corp', 'credentialless'],
+    weak: ['unsafe-none'],
+  },
+  'cross-origin-resource-policy': {
+    header: 'Cross-Origin-Resource-Policy',
+    ruleId: 'corp-missing',
+    safe: ['same-origin', 'same-site'],
+    weak: ['cross-origin'],
+  },
+}
+
+function gradeIsolationHeader({ header, ruleId, safe, weak }: IsolationHeader, value: string): SecurityIssue[] {
+  const fix = { header, value: safe[0] }
+  const evidence = `${header}: ${value}`
+  const lowered = value.toLowerCase().split(';')[0].trim()
+  if (lowered === MISSING) return [finding(ruleId, `${header}: Missing`, { fix })]
+  if (weak.includes(lowered)) return [finding(ruleId, `${header} is ${lowered}`, { evidence, fix })]
+  if (!safe.includes(lowered)) {
+    return [finding('isolation-header-invalid',
+      `${header} has no recognized value ("${value}"); valid values are ${[...safe, ...weak].join(', ')}`,
+      { evidence, fix })]
+  }
+  return [present(header, value)]
+}
+
+function gradeFrameOptions(value: string, headers: Map<string, string>): SecurityIssue[] {
+  const header = 'X-Frame-Options'
+  const fix = { header, value: 'SAMEORIGIN' }
+  const csp = headers.get('content-security-policy')
+  // frame-ancestors supersedes X-Frame-Options in every current browser
+  const coveredByCsp = csp !== undefined && csp.toLowerCase() !== MISSING && parseCsp(csp).has('frame-ancestors')
+  const lowered = value.toLowerCase()
+
+  if (lowered === MISSING) {
+    return coveredByCsp ? [] : [finding('xfo-missing', `${header}: Missing`, { fix })]
+  }
+  if (lowered !== 'deny' && lowered !== 'sameorigin') {
+    return [finding('xfo-invalid', `${header} has an unsupported value ("${value}")`, {
+      evidence: `${header}: ${value}`,
+      fix,
+    })]
+  }
+  return [present(header, value)]
+}
+
+function gradeContentTypeOptions(value: string): SecurityIssue[] {
+  const header = 'X-Content-Type-Options'
+  const fix = { header, value: 'nosniff' }
+  if (value.toLowerCase() === MISSING) return [finding('xcto-missing', `${header}: Missing`, { fix })]
+  if (value.toLowerCase() !== 'nosniff') {
+    return [finding('xcto-missing', `${header} is not nosniff ("${value}")`, { evidence: `${header}: ${value}`, fix })]
+  }
+  return [present(header, value)]
+}
+
+// Every rule the grades above raise. Their messages start with the header's name.
+const HEADER_RULES = new Set<string>([
+  'csp-missing', 'csp-no-script-restriction', 'csp-unsafe-inline', 'csp-unsafe-eval', 'csp-wildcard-source',
+  'csp-inline-styles', 'csp-no-frame-ancestors',
+  'hsts-missing', 'hsts-invalid', 'hsts-disabled', 'hsts-short-max-age', 'hsts-no-subdomains', 'hsts-not-preloaded',
+  'referrer-policy-missing', 'referrer-policy-invalid', 'referrer-policy-unsafe-url', 'referrer-policy-downgrade',
+  'permissions-policy-missing', 'permissions-policy-invalid', 'permissions-policy-open-feature',
+  'coop-missing', 'coep-missing', 'corp-missing', 'isolation-header-invalid',
+  'xfo-missing', 'xfo-invalid', 'xcto-missing',
+  'header-missing', 'header-invalid', 'header-present',
+] satisfies RuleId[])
+
+// The header a finding is about, lowercased; undefined for findings that are not about a header
+export function headerOf({ ruleId, message }: SecurityIssue): string | undefined {
+  if (!ruleId || !HEADER_RULES.has(ruleId)) return undefined
+  return message.match(/^[\w-]+/)?.[0].toLowerCase()
+}
+
+// Previous behaviour for headers this module has no specific rules for
+function gradeGeneric(header: string, value: string): SecurityIssue[] {
+  if (value === 'Missing') return [finding('header-missing', `${header}: Missing`)]
+  if (value.includes('Invalid')) return [finding('header-invalid', `${header}: ${value}`, { evidence: `${header}: ${value}` })]
+  return [present(header, value)]
+}
+
+/**
+ * Grades each reported header. Findings carry the rule that produced them
+ * and, where a header value fixes them, configuration snippets for common
+ * servers.
+ */
+export function analyzeSecurityHeaders(reported: Record<string, string>): SecurityIssue[] {
+  const headers = new Map(Object.entries(reported).map(([name, value]) => [name.toLowerCase(), value.trim()]))
+
+  return Object.entries(reported).flatMap(([name, rawValue]) => {
+    const value = rawValue.trim()
+    const key = name.toLowerCase()
+    switch (key) {
+      case 'content-security-policy':
+        return gradeCsp(value, headers)
+      case 'strict-transport-security':
+        return gradeHsts(value)
+      case 'referrer-policy':
+        return gradeReferrerPolicy(value)
+      case 'permissions-policy':
+        return gradePermissionsPolicy(value)
+      case 'x-frame-options':
+        return gradeFrameOptions(value, headers)
+      case 'x-content-type-options':
+        return gradeContentTypeOptions(value)
+      default:
+        return ISOLATION_HEADERS[key] ? gradeIsolationHeader(ISOLATION_HEADERS[key], value) : gradeGeneric(name, value)
+    }
+  })
+}
@@ -0,0 +1,534 @@
+import type { IssueReference, SecurityIssue, Severity } from './types'
+
+// Catalog of every rule that can produce a finding. Rule IDs are stable: they
+// are stored with saved scans and shared reports, so rename a rule only by
+// adding a new one.
+
+export interface Rule {
+  title: string
+  severity: Severity
+  description: string
+  remediation?: string
+  references: IssueReference[]
+}
+
+const cwe = (id: number): IssueReference => ({ type: 'cwe', id: `CWE-${id}` })
+const owasp = (id: keyof typeof OWASP_TOP_10): IssueReference => ({ type: 'owasp', id })
+
+// OWASP Top 10 (2021) categories, keyed by ID, with the slug of their page
+export const OWASP_TOP_10 = {
+  'A01:2021': { name: 'Broken Access Control', slug: 'A01_2021-Broken_Access_Control' },
+  'A02:2021': { name: 'Cryptographic Failures', slug: 'A02_2021-Cryptographic_Failures' },
+  'A03:2021': { name: 'Injection', slug: 'A03_2021-Injection' },
+  'A04:2021': { name: 'Insecure Design', slug: 'A04_2021-Insecure_Design' },
+  'A05:2021': { name: 'Security Misconfiguration', slug: 'A05_2021-Security_Misconfiguration' },
+  'A06:2021': { name: 'Vulnerable and Outdated Components', slug: 'A06_2021-Vulnerable_and_Outdated_Components' },
+  'A07:2021': { name: 'Identification and Authentication Failures', slug: 'A07_2021-Identification_and_Authentication_Failures' },
+  'A08:2021': { name: 'Software and Data Integrity Failures', slug: 'A08_2021-Software_and_Data_Integrity_Failures' },
+  'A09:2021': { name: 'Security Logging and Monitoring Failures', slug: 'A09_2021-Security_Logging_and_Monitoring_Failures' },
+  'A10:2021': { name: 'Server-Side Request Forgery', slug: 'A10_2021-Server-Side_Request_Forgery_%28SSRF%29' },
+} as const
+
+const MISCONFIGURATION = owasp('A05:2021')
+
+const CVE_ID = /^CVE-\d{4}-\d{4,}$/
+const GHSA_ID = /^GHSA(-[23456789cfghjmpqrvwx]{4}){3}$/
+
+export const isAdvisoryId = (id: string) => CVE_ID.test(id) || GHSA_ID.test(id)
+
+export const RULES = {
+  // Content-Security-Policy
+  'csp-missing': {
+    title: 'Content Security Policy missing',
+    severity: 'high',
+    description: 'Without a Content Security Policy the browser runs any script injected into the page, so a single XSS flaw exposes every visitor.',
+    remediation: 'Send a Content-Security-Policy header that only allows scripts from your own origin, then loosen it for the sources you actually use.',
+    references: [cwe(693), cwe(79), MISCONFIGURATION],
+  },
+  'csp-no-script-restriction': {
+    title: 'CSP does not restrict scripts',
+    severity: 'medium',
+    description: 'The policy has neither script-src nor default-src, so scripts may load from anywhere.',
+    remediation: "Add default-src 'self' so every resource type, scripts included, has a restrictive fallback.",
+    references: [cwe(79), MISCONFIGURATION],
+  },
+  'csp-unsafe-inline': {
+    title: 'CSP allows inline scripts',
+    severity: 'high',
+    description: 'Inline scripts are exactly what an XSS payload injects, so allowing them removes most of the protection the policy offers.',
+    remediation: "Move inline code to files, or allow specific blocks with a nonce or hash instead of 'unsafe-inline'.",
+    references: [cwe(79), MISCONFIGURATION],
+  },
+  'csp-unsafe-eval': {
+    title: 'CSP allows eval()',
+    severity: 'medium',
+    description: 'eval() and new Function() turn injected strings into code.',
+    remediation: "Remove 'unsafe-eval'. Most applications only need it for legacy libraries, which usually have a CSP-compatible build.",
+    references: [cwe(95), MISCONFIGURATION],
+  },
+  'csp-wildcard-source': {
+    title: 'CSP allows scripts from any origin',
+    severity: 'high',
+    description: 'A wildcard or scheme-only source lets an attacker load script from any host they control, which defeats the policy.',
+    remediation: 'List the specific origins scripts are loaded from instead of *, http:, https: or data:.',
+    references: [cwe(79), MISCONFIGURATION],
+  },
+  'csp-inline-styles': {
+    title: 'CSP allows inline styles',
+    severity: 'low',
+    description: 'Injected styles can be used to exfiltrate data or overlay fake content. This is common and lower risk than inline scripts.',
+    remediation: "Move inline styles to stylesheets, or use nonces or hashes instead of 'unsafe-inline' in style-src.",
+    references: [MISCONFIGURATION],
+  },
+  'csp-no-frame-ancestors': {
+    title: 'CSP does not restrict framing',
+    severity: 'low',
+    description: 'Any site can embed these pages in a frame, which enables clickjacking. frame-ancestors replaces X-Frame-Options.',
+    remediation: "Add frame-ancestors 'self', or 'none' if the site is never framed.",
+    references: [cwe(1021), MISCONFIGURATION],
+  },
+
+  // Strict-Transport-Security
+  'hsts-missing': {
+    title: 'HSTS missing',
+    severity: 'high',
+    description: 'Without HSTS the first request to the site can be downgraded to plain HTTP and intercepted.',
+    remediation: 'Send Strict-Transport-Security with a max-age of at least 180 days on every HTTPS response.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'hsts-invalid': {
+    title: 'HSTS has no valid max-age',
+    severity: 'high',
+    description: 'Browsers ignore an HSTS header without a numeric max-age.',
+    remediation: 'Set max-age to a number of seconds, e.g. max-age=63072000 for two years.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'hsts-disabled': {
+    title: 'HSTS disabled by max-age=0',
+    severity: 'high',
+    description: 'max-age=0 tells browsers to forget the HSTS policy. It is only useful while deliberately turning HSTS off.',
+    remediation: 'Set max-age to at least 180 days once the site is reliably served over HTTPS.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'hsts-short-max-age': {
+    title: 'HSTS max-age too short',
+    severity: 'medium',
+    description: 'A short max-age lets the protection lapse between visits.',
+    remediation: 'Use a max-age of at least 180 days, ideally two years.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'hsts-no-subdomains': {
+    title: 'HSTS does not cover subdomains',
+    severity: 'low',
+    description: 'Subdomains can still be reached over plain HTTP and used to set cookies for the parent domain.',
+    remediation: 'Add includeSubDomains once every subdomain supports HTTPS.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'hsts-not-preloaded': {
+    title: 'HSTS not marked for preloading',
+    severity: 'info',
+    description: 'With the preload directive the domain can be submitted to the browser preload list, protecting even the very first visit.',
+    remediation: 'Add preload and submit the domain at hstspreload.org.',
+    references: [cwe(319)],
+  },
+
+  // Referrer-Policy
+  'referrer-policy-missing': {
+    title: 'Referrer-Policy missing',
+    severity: 'low',
+    description: 'Browsers fall back to their default, which older ones set to sending the full URL, including paths and query strings, to other sites.',
+    remediation: 'Send Referrer-Policy: strict-origin-when-cross-origin.',
+    references: [cwe(200), MISCONFIGURATION],
+  },
+  'referrer-policy-invalid': {
+    title: 'Referrer-Policy not recognized',
+    severity: 'medium',
+    description: 'Browsers ignore unknown referrer policies and use their default instead.',
+    remediation: 'Use one of the standard values, e.g. strict-origin-when-cross-origin.',
+    references: [cwe(200), MISCONFIGURATION],
+  },
+  'referrer-policy-unsafe-url': {
+    title: 'Referrer-Policy leaks full URLs',
+    severity: 'medium',
+    description: 'The full URL, including paths and query strings that may carry tokens, is sent to every site, even over plain HTTP.',
+    remediation: 'Use strict-origin-when-cross-origin, or no-referrer for sensitive pages.',
+    references: [cwe(200), MISCONFIGURATION],
+  },
+  'referrer-policy-downgrade': {
+    title: 'Referrer-Policy sends full URLs cross-origin',
+    severity: 'low',
+    description: 'The full URL is sent to every other HTTPS site, which can leak paths and query strings.',
+    remediation: 'Use strict-origin-when-cross-origin.',
+    references: [cwe(200), MISCONFIGURATION],
+  },
+
+  // Permissions-Policy
+  'permissions-policy-missing': {
+    title: 'Permissions-Policy missing',
+    severity: 'low',
+    description: 'Without a Permissions-Policy, embedded third-party frames may ask for the camera, microphone or location.',
+    remediation: 'Disable the powerful features the site does not use, e.g. camera=(), microphone=(), geolocation=().',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'permissions-policy-invalid': {
+    title: 'Permissions-Policy could not be parsed',
+    severity: 'low',
+    description: "This header uses the structured syntax feature=(allowlist); the older Feature-Policy syntax like camera 'none' is ignored.",
+    remediation: 'Rewrite the policy as feature=(allowlist) pairs separated by commas.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'permissions-policy-open-feature': {
+    title: 'Powerful feature granted to every origin',
+    severity: 'medium',
+    description: 'Any embedded frame may request these features.',
+    remediation: 'Limit them to (self) or the specific origins that need them.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+
+  // Cross-origin isolation
+  'coop-missing': {
+    title: 'Cross-Origin-Opener-Policy not isolating',
+    severity: 'low',
+    description: 'Without COOP, pages this site opens (or that open it) keep a handle to its window, enabling cross-window attacks such as tabnabbing and XS-Leaks.',
+    remediation: 'Send Cross-Origin-Opener-Policy: same-origin, or same-origin-allow-popups if the site relies on popups.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'coep-missing': {
+    title: 'Cross-Origin-Embedder-Policy not isolating',
+    severity: 'info',
+    description: 'COEP, together with COOP, enables cross-origin isolation, which is needed for features like SharedArrayBuffer and hardens against Spectre-style leaks.',
+    remediation: 'Send Cross-Origin-Embedder-Policy: require-corp once every embedded resource opts in with CORP or CORS.',
+    references: [cwe(693)],
+  },
+  'corp-missing': {
+    title: 'Cross-Origin-Resource-Policy not restrictive',
+    severity: 'low',
+    description: 'Without CORP, other sites can embed these responses and may be able to read them through side channels.',
+    remediation: 'Send Cross-Origin-Resource-Policy: same-origin, or same-site for resources shared across subdomains.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'isolation-header-invalid': {
+    title: 'Cross-origin header value not recognized',
+    severity: 'medium',
+    description: 'Browsers ignore unknown values, so the header has no effect.',
+    remediation: 'Use one of the values the header defines.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+
+  // Legacy headers
+  'xfo-missing': {
+    title: 'Clickjacking protection missing',
+    severity: 'medium',
+    description: 'Any site can embed these pages in a frame and trick users into clicking through them (clickjacking).',
+    remediation: "Send X-Frame-Options: SAMEORIGIN, or the CSP directive frame-ancestors 'self'.",
+    references: [cwe(1021), MISCONFIGURATION],
+  },
+  'xfo-invalid': {
+    title: 'X-Frame-Options value not supported',
+    severity: 'medium',
+    description: 'Only DENY and SAMEORIGIN are supported; ALLOW-FROM is ignored by modern browsers.',
+    remediation: 'Use DENY or SAMEORIGIN, and CSP frame-ancestors to allow specific origins.',
+    references: [cwe(1021), MISCONFIGURATION],
+  },
+  'xcto-missing': {
+    title: 'MIME sniffing not disabled',
+    severity: 'medium',
+    description: 'Browsers may guess ("sniff") a response type and, for example, run an uploaded text file as script.',
+    remediation: 'Send X-Content-Type-Options: nosniff.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'header-missing': {
+    title: 'Security header missing',
+    severity: 'high',
+    description: 'The scanner expected this security header and did not find it.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'header-invalid': {
+    title: 'Security header invalid',
+    severity: 'medium',
+    description: 'The scanner reported this header as invalid, so browsers may ignore it.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'header-present': {
+    title: 'Security header set',
+    severity: 'info',
+    description: 'The header is present and no problems were found with its value.',
+    references: [],
+  },
+
+  // Backend checks
+  'xss': {
+    title: 'Cross-site scripting weakness',
+    severity: 'high',
+    description: 'The scanner found a way for untrusted input to end up in the page as markup or script.',
+    remediation: 'Encode output for the context it is written to, validate input, and deploy a strict Content Security Policy as a second line of defense.',
+    references: [cwe(79), owasp('A03:2021')],
+  },
+  'phishing-pattern': {
+    title: 'Phishing indicator',
+    severity: 'medium',
+    description: 'The page contains patterns commonly seen on phishing sites. Its severity follows the risk level the scanner assigned.',
+    references: [cwe(451)],
+  },
+  'malware-pattern': {
+    title: 'Malware indicator',
+    severity: 'medium',
+    description: 'The page contains patterns associated with malicious code. Its severity follows the risk level the scanner assigned.',
+    references: [cwe(506), owasp('A08:2021')],
+  },
+  'csrf-no-protection': {
+    title: 'No CSRF protection',
+    severity: 'high',
+    description: 'Forms accept state-changing requests without a token, so another site can submit them on behalf of a logged-in visitor.',
+    remediation: 'Require an anti-CSRF token on state-changing requests and set cookies with SameSite=Lax or Strict.',
+    references: [cwe(352), owasp('A01:2021')],
+  },
+  'csrf-weakness': {
+    title: 'Weak CSRF protection',
+    severity: 'medium',
+    description: 'The scanner found a gap in how requests are protected against cross-site request forgery.',
+    remediation: 'Require an anti-CSRF token on state-changing requests and set cookies with SameSite=Lax or Strict.',
+    references: [cwe(352), owasp('A01:2021')],
+  },
+  'ct-not-logged': {
+    title: 'Certificate not in Certificate Transparency logs',
+    severity: 'high',
+    description: 'Publicly trusted certificates are logged in CT logs. A certificate that is not may be misissued, and browsers can reject it.',
+    remediation: 'Use a certificate from a publicly trusted CA, which logs it automatically.',
+    references: [cwe(295), owasp('A02:2021')],
+  },
+  'ct-status': {
+    title: 'Certificate Transparency status',
+    severity: 'info',
+    description: 'The certificate was found in Certificate Transparency logs.',
+    references: [],
+  },
+  'csp-recommendation': {
+    title: 'Content security recommendation',
+    severity: 'low',
+    description: 'The scanner recommends a change to how the site protects its content.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'outdated-component': {
+    title: 'Outdated or vulnerable component',
+    severity: 'medium',
+    description: 'The scanner recommends upgrading or adding a component. Outdated libraries often carry publicly known vulnerabilities.',
+    remediation: 'Upgrade to a maintained release and keep dependencies on an update schedule.',
+    references: [cwe(1104), owasp('A06:2021')],
+  },
+  'header-recommendation': {
+    title: 'Transport security recommendation',
+    severity: 'low',
+    description: 'The scanner recommends a change to the site\'s TLS setup or security headers.',
+    references: [cwe(693), MISCONFIGURATION],
+  },
+  'xss-recommendation': {
+    title: 'Cross-site scripting recommendation',
+    severity: 'low',
+    description: 'The scanner recommends a change that reduces the risk of cross-site scripting.',
+    references: [cwe(79), owasp('A03:2021')],
+  },
+  'csrf-recommendation': {
+    title: 'CSRF recommendation',
+    severity: 'low',
+    description: 'The scanner recommends a change that hardens the site against cross-site request forgery.',
+    references: [cwe(352), owasp('A01:2021')],
+  },
+  'ct-recommendation': {
+    title: 'Certificate Transparency recommendation',
+    severity: 'low',
+    description: 'The scanner recommends a change to how the site\'s certificates are logged or monitored.',
+    references: [],
+  },
+  'recommendation': {
+    title: 'Recommendation',
+    severity: 'low',
+    description: 'A recommendation from the scanner that does not belong to a more specific rule.',
+    references: [],
+  },
+
+  // Pasted page source
+  'inline-script-unrestricted': {
+    title: 'Inline scripts without CSP protection',
+    severity: 'medium',
+    description: 'The page runs inline scripts and its Content Security Policy, if any, lets every inline script run. An injected <script> tag would run just the same.',
+    remediation: 'Move scripts into external files, or give each inline script a per-response nonce and drop \'unsafe-inline\' from script-src.',
+    references: [cwe(79), owasp('A03:2021')],
+  },
+  'inline-handler': {
+    title: 'Inline event handlers',
+    severity: 'low',
+    description: 'Attributes like onclick= and javascript: links cannot carry a nonce, so they force the policy to allow inline script.',
+    remediation: 'Attach event listeners from an external script instead of HTML attributes.',
+    references: [cwe(79)],
+  },
+  'inline-script-blocked': {
+    title: 'Inline script blocked by the page\'s own CSP',
+    severity: 'info',
+    description: 'The Content Security Policy does not allow this inline script, so browsers will not run it. This is safe but probably breaks part of the page.',
+    remediation: 'Add the response\'s nonce to the script tag, or move the script into an external file.',
+    references: [],
+  },
+  'form-insecure-action': {
+    title: 'Form submits over HTTP',
+    severity: 'high',
+    description: 'The form sends what the user typed over an unencrypted connection, where anyone on the network can read or change it.',
+    remediation: 'Point the form action at an https:// URL.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'form-no-csrf-token': {
+    title: 'Form without a CSRF token',
+    severity: 'medium',
+    description: 'The POST form has no hidden anti-CSRF token, so another site may be able to submit it on a logged-in user\'s behalf.',
+    remediation: 'Add a per-session token to the form and verify it on the server, and set session cookies with SameSite=Lax or Strict.',
+    references: [cwe(352), owasp('A01:2021')],
+  },
+  'mixed-content-active': {
+    title: 'Scripts or frames loaded over HTTP',
+    severity: 'high',
+    description: 'An HTTPS page loads scripts, stylesheets or frames over plain HTTP. Browsers block them, and a network attacker could otherwise replace them.',
+    remediation: 'Load every subresource over https://, or send Content-Security-Policy: upgrade-insecure-requests.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'mixed-content-passive': {
+    title: 'Images or media loaded over HTTP',
+    severity: 'medium',
+    description: 'An HTTPS page loads images, audio or video over plain HTTP, which a network attacker can read and replace.',
+    remediation: 'Load every subresource over https://, or send Content-Security-Policy: upgrade-insecure-requests.',
+    references: [cwe(319), owasp('A02:2021')],
+  },
+  'library-detected': {
+    title: 'JavaScript library',
+    severity: 'info',
+    description: 'A third-party library the page loads. No known vulnerability affects the detected version, or the version could not be determined.',
+    references: [],
+  },
+  'vulnerable-library': {
+    title: 'Library with a known vulnerability',
+    severity: 'medium',
+    description: 'The page loads a version of a library with a published advisory. Its severity follows the advisory.',
+    remediation: 'Upgrade the library to the fixed version or later, and check the advisory for configuration-based workarounds.',
+    references: [cwe(1395), owasp('A06:2021')],
+  },
+
+  // URL heuristics
+  'url-userinfo': {
+    title: 'Address hides its real host',
+    severity: 'high',
+    description: 'Everything before "@" in the authority is a user name that browsers ignore, a trick used to make a link look like it points to a trusted site.',
+    references: [cwe(451)],
+  },
+  'url-ip-host': {
+    title: 'Raw IP address host',
+    severity: 'medium',
+    description: 'Legitimate sites are almost always reached by name. Raw IP addresses are common in phishing links and throwaway infrastructure.',
+    references: [cwe(451)],
+  },
+  'url-idn': {
+    title: 'Internationalized domain name',
+    severity: 'info',
+    description: 'The domain contains non-ASCII characters and is sent over the network in its punycode form.',
+    references: [],
+  },
+  'url-mixed-script': {
+    title: 'Mixed-script domain label',
+    severity: 'high',
+    description: 'Mixing alphabets in one label, e.g. a Cyrillic "а" among Latin letters, produces domains that look identical to well-known ones.',
+    references: [cwe(1007)],
+  },
+  'url-confusable-script': {
+    title: 'Domain written in lookalike characters',
+    severity: 'high',
+    description: 'The label uses only characters from another alphabet that look like Latin letters, so it reads as a different, familiar name.',
+    references: [cwe(1007)],
+  },
+  'url-deep-subdomains': {
+    title: 'Excessive subdomains',
+    severity: 'medium',
+    description: 'Long chains of subdomains push the real domain out of view, e.g. in a narrow mobile address bar.',
+    references: [cwe(451)],
+  },
+  'url-shortener': {
+    title: 'Link shortener',
+    severity: 'medium',
+    description: 'The final destination is hidden until the link is followed. The scan covers the shortener, not the target.',
+    remediation: 'Expand the link with the shortener\'s preview feature and scan the destination instead.',
+    references: [],
+  },
+  'url-brand-lookalike': {
+    title: 'Brand lookalike domain',
+    severity: 'high',
+    description: 'The domain reads as a well-known brand once lookalike characters (0 for o, rn for m, Cyrillic letters) are taken into account.',
+    references: [cwe(451)],
+  },
+  'url-brand-typo': {
+    title: 'Brand typosquatting domain',
+    severity: 'medium',
+    description: 'The domain is a single typo away from a well-known brand.',
+    references: [cwe(451)],
+  },
+  'url-brand-in-domain': {
+    title: 'Brand name in an unrelated domain',
+    severity: 'medium',
+    description: 'The domain borrows a brand name without being the brand\'s own domain.',
+    references: [cwe(451)],
+  },
+  'url-brand-in-subdomain': {
+    title: 'Brand name in a subdomain',
+    severity: 'medium',
+    description: 'The brand name appears in a subdomain of an unrelated domain, e.g. paypal.com.example.net.',
+    references: [cwe(451)],
+  },
+} satisfies Record<string, Rule>
+
+export type RuleId = keyof typeof RULES
+
+interface IssueDetails {
+  // Overrides the rule's default severity, e.g. with the backend's risk level
+  severity?: Severity
+  evidence?: string
+  snippets?: SecurityIssue['snippets']
+  // Added to the rule's references, e.g. the advisories behind a finding
+  references?: IssueReference[]
+}
+
+/**
+ * Builds an issue for `ruleId`, filling in everything the catalog knows about
+ * the rule. `message` describes this particular finding.
+ */
+export function ruleIssue(ruleId: RuleId, message: string, details: IssueDetails = {}): SecurityIssue {
+  const rule: Rule = RULES[ruleId]
+  return {
+    ruleId,
+    message,
+    severity: details.severity ?? rule.severity,
+    title: rule.title,
+    description: rule.description,
+    ...(rule.remediation ? { remediation: rule.remediation } : {}),
+    ...(details.evidence ? { evidence: details.evidence } : {}),
+    ...(details.snippets ? { snippets: details.snippets } : {}),
+    ...(rule.references.length > 0 || details.references?.length
+      ? { references: [...(details.references ?? []), ...rule.references] }
+      : {}),
+  }
+}
+
+export function referenceLabel(reference: IssueReference): string {
+  return reference.type === 'owasp'
+    ? `OWASP ${reference.id} ${OWASP_TOP_10[reference.id as keyof typeof OWASP_TOP_10]?.name ?? ''}`.trim()
+    : reference.id
+}
+
+// Links are derived from the ID, never stored, so shared reports cannot inject URLs
+export function referenceUrl(reference: IssueReference): string | null {
+  if (reference.type === 'cwe') {
+    const match = reference.id.match(/^CWE-(\d+)$/)
+    return match ? `https://cwe.mitre.org/data/definitions/${match[1]}.html` : null
+  }
+  if (reference.type === 'advisory') {
+    if (CVE_ID.test(reference.id)) return `https://nvd.nist.gov/vuln/detail/${reference.id}`
+    return GHSA_ID.test(reference.id) ? `https://github.com/advisories/${reference.id}` : null
+  }
+  const category = OWASP_TOP_10[reference.id as keyof typeof OWASP_TOP_10]
+  return category ? `https://owasp.org/Top10/${category.slug}/` : null
+}
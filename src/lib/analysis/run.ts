@@ -0,0 +1,92 @@
+import { env } from '@/config/env'
+import { SECTION_KEYS, type ValidatedCheckWebsiteResponse } from '@/lib/api/check-website'
+import { checkWebsite, streamCheckWebsite, type CheckState, type StreamProgress } from '@/lib/api/client'
+import { preflightUrl, type UrlPreflight } from '@/lib/url/heuristics'
+import { toTlsDetails, type TlsDetails } from './tls'
+import { sourceSection, toAnalysisResult } from './transform'
+import { CATEGORY_KEYS, type AnalysisResult, type CategoryKey } from './types'
+import { computeVerdict, type Verdict } from './verdict'
+
+export interface ScanOutcome {
+  url: string
+  // ISO 8601 timestamp of when the scan finished
+  scannedAt: string
+  result: AnalysisResult
+  verdict: Verdict
+  // Certificate and connection details, when the backend reports them
+  tls?: TlsDetails
+}
+
+export interface ScanOptions {
+  // Cancels the scan; the returned promise rejects with an AbortError
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+// The full scan pipeline shared by every entry point: check the address, fetch, map, judge
+export async function analyzeWebsite(
+  url: string,
+  { signal, timeoutMs = env.scan.timeoutMs }: ScanOptions = {}
+): Promise<ScanOutcome> {
+  const preflight = preflightUrl(url)
+  return toScanOutcome(preflight, await checkWebsite(preflight.url, { signal, timeoutMs }))
+}
+
+// Also used by the server, which fetches from the backend directly and may pass a cached scan's time
+export function toScanOutcome(
+  preflight: UrlPreflight,
+  validated: ValidatedCheckWebsiteResponse,
+  scannedAt = validated.scannedAt ?? new Date().toISOString()
+): ScanOutcome {
+  const result = toAnalysisResult(validated, preflight.issues)
+  const tls = toTlsDetails(validated.sections)
+  return {
+    url: preflight.url,
+    scannedAt,
+    result,
+    verdict: computeVerdict(result),
+    ...(tls ? { tls } : {}),
+  }
+}
+
+export interface ScanProgress {
+  result: AnalysisResult
+  checks: Partial<Record<CategoryKey, CheckState>>
+  tls?: TlsDetails
+}
+
+/**
+ * Streaming variant of analyzeWebsite: `onProgress` receives the partial
+ * result, with per-category check state, every time a check finishes. The
+ * URL heuristics are reported straight away, before the request is made.
+ */
+export async function analyzeWebsiteProgressively(
+  url: string,
+  onProgress: (progress: ScanProgress) => void,
+  { signal, timeoutMs = env.scan.timeoutMs }: ScanOptions = {}
+): Promise<ScanOutcome> {
+  const preflight = preflightUrl(url)
+  const report = (response: ValidatedCheckWebsiteResponse, checks: StreamProgress['checks']) => {
+    onProgress({
+      result: toAnalysisResult(response, preflight.issues),
+      checks: Object.fromEntries(CATEGORY_KEYS.flatMap((key) => {
+        const source = sourceSection(key)
+        const state: CheckState | undefined = source ? checks[source] : { status: 'done', durationMs: 0 }
+        return state ? [[key, state]] : []
+      })),
+      tls: toTlsDetails(response.sections),
+    })
+  }
+
+  report(
+    { sections: {}, errors: Object.fromEntries(SECTION_KEYS.map((key) => [key, 'still running'])) },
+    Object.fromEntries(SECTION_KEYS.map((key) => [key, { status: 'pending' }]))
+  )
+  const validated = await streamCheckWebsite(
+    preflight.url,
+    ({ response, checks }) => report(response, checks),
+    { signal, timeoutMs }
+  )
+
+  return toScanOutcome(preflight, validated)
+}
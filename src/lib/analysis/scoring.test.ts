@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { overallScore, scoreCategory, scoreIssues } from './scoring'
+import { CATEGORY_KEYS, type AnalysisResult, type SecurityIssue } from './types'
+
+const issue = (severity: SecurityIssue['severity']): SecurityIssue => ({ message: 'Finding', severity })
+
+function resultScoring(scores: Partial<Record<keyof AnalysisResult, number>>, errors: (keyof AnalysisResult)[] = []) {
+  return Object.fromEntries(CATEGORY_KEYS.map((key) => [key, {
+    score: scores[key] ?? 100,
+    issues: [],
+    ...(errors.includes(key) ? { error: 'missing from response' } : {}),
+  }])) as unknown as AnalysisResult
+}
+
+describe('scoreIssues', () => {
+  it('deducts each finding by its severity', () => {
+    expect(scoreIssues([])).toBe(100)
+    expect(scoreIssues([issue('high')])).toBe(70)
+    expect(scoreIssues([issue('medium'), issue('low'), issue('info')])).toBe(80)
+  })
+
+  it('never goes below zero', () => {
+    expect(scoreIssues([issue('high'), issue('high'), issue('high'), issue('high')])).toBe(0)
+  })
+})
+
+describe('scoreCategory', () => {
+  it('keeps the lower of the findings score and the backend score', () => {
+    expect(scoreCategory([issue('high')], 90)).toBe(70)
+    expect(scoreCategory([issue('low')], 40)).toBe(40)
+    expect(scoreCategory([issue('low')])).toBe(95)
+  })
+
+  it('clamps and rounds backend scores', () => {
+    expect(scoreCategory([], 150)).toBe(100)
+    expect(scoreCategory([], -5)).toBe(0)
+    expect(scoreCategory([], 72.6)).toBe(73)
+  })
+})
+
+describe('overallScore', () => {
+  it('averages the categories', () => {
+    expect(overallScore(resultScoring({}))).toBe(100)
+    expect(overallScore(resultScoring({ ssl: 100 - 10 * CATEGORY_KEYS.length }))).toBe(90)
+  })
+
+  it('leaves out categories that could not be scored', () => {
+    expect(overallScore(resultScoring({ ssl: 0 }, ['ssl']))).toBe(100)
+    expect(overallScore(resultScoring({}, CATEGORY_KEYS))).toBe(0)
+  })
+})
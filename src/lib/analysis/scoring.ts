@@ -0,0 +1,44 @@
+import { categoryEntries, type AnalysisResult, type SecurityIssue, type Severity } from './types'
+
+/**
+ * Scoring formula
+ *
+ * Each finding deducts points from a perfect 100 according to its severity:
+ *
+ *   findingsScore = max(0, 100 - Σ SEVERITY_WEIGHTS[issue.severity])
+ *
+ * When the backend reports its own 0-100 sub-score for the section behind a
+ * category, the category keeps the lower of the two so neither source can hide
+ * problems the other one found:
+ *
+ *   categoryScore = min(findingsScore, backendScore)
+ *
+ * The overall score is the mean of the available categories; categories whose
+ * data failed to load are left out rather than counted as zero.
+ */
+export const SEVERITY_WEIGHTS: Record<Severity, number> = {
+  high: 30,
+  medium: 15,
+  low: 5,
+  info: 0,
+}
+
+const clampScore = (value: number) => Math.round(Math.min(100, Math.max(0, value)))
+
+export function scoreIssues(issues: SecurityIssue[]): number {
+  const penalty = issues.reduce((acc, issue) => acc + SEVERITY_WEIGHTS[issue.severity], 0)
+  return clampScore(100 - penalty)
+}
+
+export function scoreCategory(issues: SecurityIssue[], backendScore?: number): number {
+  const findingsScore = scoreIssues(issues)
+  return backendScore === undefined ? findingsScore : clampScore(Math.min(findingsScore, backendScore))
+}
+
+export function overallScore(result: AnalysisResult): number {
+  const scores = categoryEntries(result)
+    .filter(([, category]) => category.error === undefined)
+    .map(([, category]) => category.score)
+  if (scores.length === 0) return 0
+  return clampScore(scores.reduce((acc, score) => acc + score, 0) / scores.length)
+}
@@ -0,0 +1,83 @@
+import type { CheckWebsiteResponse, SignedCertificateTimestamp, TlsCertificate } from '@/lib/api/check-website'
+
+export interface CertificateDetails {
+  subject: string
+  subjectAltNames: string[]
+  issuer: string
+  validFrom: string
+  validTo: string
+  keyType: string
+  keySize: number
+  serialNumber?: string
+  fingerprintSha256?: string
+}
+
+export interface SctDetails {
+  logName: string
+  logId: string
+  timestamp: string
+  origin?: SignedCertificateTimestamp['origin']
+  signatureAlgorithm?: string
+}
+
+// What the TLS panel shows: the connection and certificate as the scanner saw them
+export interface TlsDetails {
+  // Leaf certificate first, then each issuer up to the root
+  chain: CertificateDetails[]
+  protocols: string[]
+  cipherSuites: string[]
+  // Undefined when the backend sent no SCT details, empty when it found none
+  scts?: SctDetails[]
+}
+
+// Still accepted by some servers but deprecated by RFC 8996
+const DEPRECATED_PROTOCOLS = new Set(['sslv2', 'sslv3', 'tlsv1', 'tlsv1.0', 'tlsv1.1'])
+
+export const isDeprecatedProtocol = (protocol: string) =>
+  DEPRECATED_PROTOCOLS.has(protocol.toLowerCase().replace(/\s+/g, ''))
+
+// Suites without forward secrecy or AEAD, or with broken primitives
+export const isWeakCipherSuite = (suite: string) =>
+  /NULL|EXPORT|anon|RC4|3DES|DES_CBC|MD5|_CBC_/.test(suite) || /^TLS_RSA_/.test(suite)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whole days from `asOf` until `validTo`; negative once the certificate has expired
+export const daysUntil = (validTo: string, asOf: string) =>
+  Math.floor((Date.parse(validTo) - Date.parse(asOf)) / DAY_MS)
+
+const toCertificate = (certificate: TlsCertificate): CertificateDetails => ({
+  subject: certificate.subject,
+  subjectAltNames: certificate.san,
+  issuer: certificate.issuer,
+  validFrom: certificate.not_before,
+  validTo: certificate.not_after,
+  keyType: certificate.key_type,
+  keySize: certificate.key_size,
+  ...(certificate.serial_number ? { serialNumber: certificate.serial_number } : {}),
+  ...(certificate.fingerprint_sha256 ? { fingerprintSha256: certificate.fingerprint_sha256 } : {}),
+})
+
+const toSct = (sct: SignedCertificateTimestamp): SctDetails => ({
+  logName: sct.log_name,
+  logId: sct.log_id,
+  timestamp: sct.timestamp,
+  ...(sct.origin ? { origin: sct.origin } : {}),
+  ...(sct.signature_algorithm ? { signatureAlgorithm: sct.signature_algorithm } : {}),
+})
+
+/**
+ * Maps the backend's `tls_check` section, and the SCTs reported with
+ * `ct_check`, onto the panel model. Undefined when the backend did not send
+ * TLS details, e.g. because it predates them.
+ */
+export function toTlsDetails(sections: Partial<CheckWebsiteResponse>): TlsDetails | undefined {
+  const { tls_check: tls, ct_check: ct } = sections
+  if (!tls) return undefined
+  return {
+    chain: tls.certificate_chain.map(toCertificate),
+    protocols: tls.protocols,
+    cipherSuites: tls.cipher_suites,
+    ...(ct?.scts ? { scts: ct.scts.map(toSct) } : {}),
+  }
+}
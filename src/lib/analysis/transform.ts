@@ -0,0 +1,161 @@
+import {
+  MISSING_SECTION,
+  OPTIONAL_SECTIONS,
+  type CheckWebsiteResponse,
+  type RiskLevel,
+  type SectionKey,
+  type ValidatedCheckWebsiteResponse,
+} from '@/lib/api/check-website'
+import { identifyLibrary } from '@/lib/libraries/detect'
+import { analyzeLibraries } from '@/lib/libraries/vulnerabilities'
+import { categorizeRecommendation, type RecommendationCategory } from './categorize'
+import { analyzeSecurityHeaders } from './headers'
+import { ruleIssue } from './rules'
+import { scoreCategory } from './scoring'
+import { categoryEntries, type AnalysisResult, type CategoryKey, type CategoryResult, type SecurityIssue, type Severity } from './types'
+
+type Sections = Partial<CheckWebsiteResponse>
+
+// Categories built from backend sections; URL heuristics are computed locally
+// and uncategorized recommendations are collected separately
+type BackendCategoryKey = Exclude<CategoryKey, 'urlHeuristics' | 'uncategorized'>
+
+interface CategoryMapping {
+  source: SectionKey
+  // Omitted for categories fed only by the recommendations routed to them
+  issues?: (sections: Required<Sections>) => SecurityIssue[]
+  backendScore?: (sections: Required<Sections>) => number | undefined
+}
+
+const riskSeverity = (level: RiskLevel): Severity =>
+  level === 'high' ? 'high' : level === 'medium' ? 'medium' : 'low'
+
+// Which backend section feeds each category, and how its findings become issues
+const categoryMappings: Record<BackendCategoryKey, CategoryMapping> = {
+  ssl: {
+    source: 'security_headers',
+    issues: ({ security_headers }) => analyzeSecurityHeaders(security_headers),
+  },
+  contentSecurity: {
+    source: 'recommendations',
+  },
+  vulnerabilities: {
+    source: 'xss_check',
+    issues: ({ xss_check }) => xss_check.issues.map((issue) => ruleIssue('xss', issue, { evidence: issue })),
+    backendScore: ({ xss_check }) => xss_check.score,
+  },
+  phishing: {
+    source: 'phishing_check',
+    issues: ({ phishing_check }) => phishing_check.suspicious_patterns.map((pattern) => ruleIssue('phishing-pattern', pattern, {
+      severity: riskSeverity(phishing_check.risk_level),
+      evidence: pattern,
+    })),
+    backendScore: ({ phishing_check }) => phishing_check.score,
+  },
+  malware: {
+    source: 'malware_check',
+    issues: ({ malware_check }) => malware_check.suspicious_patterns.map((pattern) => ruleIssue('malware-pattern', pattern, {
+      severity: riskSeverity(malware_check.risk_level),
+      evidence: pattern,
+    })),
+    backendScore: ({ malware_check }) => malware_check.score,
+  },
+  webAttacks: {
+    source: 'csrf_check',
+    issues: ({ csrf_check }) => csrf_check.issues.map((issue) => ruleIssue(
+      issue.includes('No CSRF protection') ? 'csrf-no-protection' : 'csrf-weakness',
+      issue,
+      { evidence: issue }
+    )),
+    backendScore: ({ csrf_check }) => csrf_check.score,
+  },
+  certificateTransparency: {
+    source: 'ct_check',
+    issues: ({ ct_check }) => [ruleIssue(
+      ct_check.ct_status.includes('Not found') ? 'ct-not-logged' : 'ct-status',
+      ct_check.ct_status
+    )],
+    backendScore: ({ ct_check }) => ct_check.score,
+  },
+  libraries: {
+    source: 'detected_libraries',
+    issues: ({ detected_libraries }) => analyzeLibraries(detected_libraries.map(({ name, version, source }) => ({
+      ...identifyLibrary(name),
+      ...(version ? { version } : {}),
+      ...(source ? { source } : {}),
+    }))),
+  },
+}
+
+/**
+ * Maps a validated backend payload onto the per-category result model. A
+ * category whose source section is missing or malformed is kept with no issues
+ * and an `error` describing why, so the remaining categories still render.
+ * Optional sections the backend did not send count as empty instead.
+ * Each recommendation is added to the one category categorize.ts assigns it;
+ * those that fit none, or whose category is unavailable, are kept under
+ * `uncategorized`. `urlIssues`, from the offline URL heuristics, become their
+ * own category.
+ */
+export function toAnalysisResult(
+  { sections, errors }: ValidatedCheckWebsiteResponse,
+  urlIssues?: SecurityIssue[]
+): AnalysisResult {
+  const routed = new Map<RecommendationCategory, SecurityIssue[]>()
+  for (const recommendation of sections.recommendations ?? []) {
+    const { category, issue } = categorizeRecommendation(recommendation)
+    routed.set(category, [...(routed.get(category) ?? []), issue])
+  }
+  const uncategorized = routed.get('uncategorized') ?? []
+
+  const build = (key: BackendCategoryKey): CategoryResult => {
+    const { source, issues, backendScore } = categoryMappings[key]
+    const recommendations = routed.get(key) ?? []
+    if (sections[source] === undefined) {
+      if (OPTIONAL_SECTIONS.includes(source) && errors[source] === MISSING_SECTION) {
+        return { score: scoreCategory(recommendations), issues: recommendations }
+      }
+      uncategorized.push(...recommendations)
+      return {
+        score: 0,
+        issues: [],
+        error: `${source}: ${errors[source] ?? MISSING_SECTION}`,
+      }
+    }
+    const available = sections as Required<Sections>
+    const categoryIssues = [...(issues?.(available) ?? []), ...recommendations]
+    return {
+      score: scoreCategory(categoryIssues, backendScore?.(available)),
+      issues: categoryIssues,
+    }
+  }
+
+  const backendCategories = {
+    ssl: build('ssl'),
+    contentSecurity: build('contentSecurity'),
+    vulnerabilities: build('vulnerabilities'),
+    phishing: build('phishing'),
+    malware: build('malware'),
+    webAttacks: build('webAttacks'),
+    certificateTransparency: build('certificateTransparency'),
+    libraries: build('libraries'),
+  }
+
+  return {
+    ...(urlIssues ? { urlHeuristics: { score: scoreCategory(urlIssues), issues: urlIssues } } : {}),
+    ...backendCategories,
+    ...(uncategorized.length > 0 ? { uncategorized: { score: scoreCategory(uncategorized), issues: uncategorized } } : {}),
+  }
+}
+
+export function unavailableCategories(result: AnalysisResult): CategoryKey[] {
+  return categoryEntries(result)
+    .filter(([, category]) => category.error !== undefined)
+    .map(([key]) => key)
+}
+
+// The backend section a category is built from; undefined for local checks
+export function sourceSection(key: CategoryKey): SectionKey | undefined {
+  if (key === 'urlHeuristics') return undefined
+  return key === 'uncategorized' ? 'recommendations' : categoryMappings[key].source
+}
@@ -0,0 +1,79 @@
+export type Severity = 'high' | 'medium' | 'low' | 'info'
+
+// Most severe first
+export const SEVERITIES: Severity[] = ['high', 'medium', 'low', 'info']
+
+// Server configuration that resolves a finding, one snippet per platform
+export interface ConfigSnippets {
+  nginx: string
+  apache: string
+  nextjs: string
+}
+
+// A weakness class (e.g. "CWE-79"), OWASP Top 10 category (e.g. "A03:2021")
+// or advisory (e.g. "CVE-2020-11022", "GHSA-gxr4-xjj5-5px2")
+export interface IssueReference {
+  type: 'cwe' | 'owasp' | 'advisory'
+  id: string
+}
+
+export interface SecurityIssue {
+  // What was found, specific to this scan
+  message: string
+  severity: Severity
+  // Stable identifier of the rule that produced the finding, see rules.ts.
+  // Issues from scans saved before rules existed only have message and severity.
+  ruleId?: string
+  title?: string
+  description?: string
+  // The offending header, value or snippet
+  evidence?: string
+  remediation?: string
+  snippets?: ConfigSnippets
+  references?: IssueReference[]
+}
+
+export interface CategoryResult {
+  score: number
+  issues: SecurityIssue[]
+  // Set when the backend section feeding this category was missing or malformed
+  error?: string
+}
+
+export interface AnalysisResult {
+  // Offline checks on the address itself; absent from scans saved before they existed
+  urlHeuristics?: CategoryResult
+  ssl: CategoryResult
+  contentSecurity: CategoryResult
+  vulnerabilities: CategoryResult
+  phishing: CategoryResult
+  malware: CategoryResult
+  webAttacks: CategoryResult
+  certificateTransparency: CategoryResult
+  libraries: CategoryResult
+  // Backend recommendations no rule could place; only present when there are some
+  uncategorized?: CategoryResult
+}
+
+export type CategoryKey = keyof AnalysisResult
+
+export const CATEGORY_KEYS: CategoryKey[] = [
+  'urlHeuristics',
+  'ssl',
+  'contentSecurity',
+  'vulnerabilities',
+  'phishing',
+  'malware',
+  'webAttacks',
+  'certificateTransparency',
+  'libraries',
+  'uncategorized',
+]
+
+// The categories a result actually contains, in display order
+export function categoryEntries(result: AnalysisResult): [CategoryKey, CategoryResult][] {
+  return CATEGORY_KEYS.flatMap((key) => {
+    const category = result[key]
+    return category ? [[key, category]] : []
+  })
+}
@@ -0,0 +1,156 @@
+import { isAdvisoryId, OWASP_TOP_10 } from './rules'
+import type { CertificateDetails, SctDetails, TlsDetails } from './tls'
+import { CATEGORY_KEYS, type AnalysisResult, type CategoryKey, type CategoryResult, type ConfigSnippets, type IssueReference, type SecurityIssue } from './types'
+import { SAFETY_STATUSES, type SafetyStatus, type Verdict } from './verdict'
+
+const SEVERITIES = new Set(['high', 'medium', 'low', 'info'])
+
+const OPTIONAL_CATEGORIES = new Set<CategoryKey>(['urlHeuristics', 'uncategorized'])
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function parseSnippets(value: unknown): ConfigSnippets | null {
+  if (!isRecord(value)) return null
+  const { nginx, apache, nextjs } = value
+  if (typeof nginx !== 'string' || typeof apache !== 'string' || typeof nextjs !== 'string') return null
+  return { nginx, apache, nextjs }
+}
+
+// Only IDs are accepted; links are derived from them when rendered
+function parseReference(value: unknown): IssueReference | null {
+  if (!isRecord(value) || typeof value.id !== 'string') return null
+  if (value.type === 'cwe' && /^CWE-\d+$/.test(value.id)) return { type: 'cwe', id: value.id }
+  if (value.type === 'owasp' && value.id in OWASP_TOP_10) return { type: 'owasp', id: value.id }
+  if (value.type === 'advisory' && isAdvisoryId(value.id)) return { type: 'advisory', id: value.id }
+  return null
+}
+
+const OPTIONAL_TEXT = ['ruleId', 'title', 'description', 'evidence', 'remediation'] as const
+
+function parseIssue(value: unknown): SecurityIssue | null {
+  if (!isRecord(value) || typeof value.message !== 'string' || !SEVERITIES.has(value.severity as string)) {
+    return null
+  }
+  const issue: SecurityIssue = {
+    message: value.message,
+    severity: value.severity as SecurityIssue['severity'],
+  }
+  for (const key of OPTIONAL_TEXT) {
+    if (value[key] === undefined) continue
+    if (typeof value[key] !== 'string') return null
+    issue[key] = value[key]
+  }
+  if (value.snippets !== undefined) {
+    const snippets = parseSnippets(value.snippets)
+    if (!snippets) return null
+    issue.snippets = snippets
+  }
+  if (value.references !== undefined) {
+    if (!Array.isArray(value.references)) return null
+    const references = value.references.map(parseReference)
+    if (references.some((reference) => reference === null)) return null
+    issue.references = references as IssueReference[]
+  }
+  return issue
+}
+
+function parseCategory(value: unknown): CategoryResult | null {
+  if (!isRecord(value) || typeof value.score !== 'number' || !Array.isArray(value.issues)) return null
+  const issues = value.issues.map(parseIssue)
+  if (issues.some((issue) => issue === null)) return null
+  return {
+    score: Math.min(100, Math.max(0, value.score)),
+    issues: issues as SecurityIssue[],
+    ...(typeof value.error === 'string' ? { error: value.error } : {}),
+  }
+}
+
+/**
+ * Checks that an untrusted value (a shared link, an imported file) has the
+ * AnalysisResult shape. Returns null rather than a partially valid result.
+ */
+export function parseAnalysisResult(value: unknown): AnalysisResult | null {
+  if (!isRecord(value)) return null
+  const result: Partial<AnalysisResult> = {}
+  for (const key of CATEGORY_KEYS) {
+    if (OPTIONAL_CATEGORIES.has(key) && value[key] === undefined) continue
+    const category = parseCategory(value[key])
+    if (!category) return null
+    result[key] = category
+  }
+  return result as AnalysisResult
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString)
+
+const isTimestamp = (value: unknown): value is string => isString(value) && !Number.isNaN(Date.parse(value))
+
+// Copies the optional string fields of `value` that are present; false if one is not a string
+function copyOptionalText<T>(target: T, value: Record<string, unknown>, keys: readonly (keyof T & string)[]): boolean {
+  for (const key of keys) {
+    if (value[key] === undefined) continue
+    if (!isString(value[key])) return false
+    target[key] = value[key] as T[keyof T & string]
+  }
+  return true
+}
+
+function parseCertificate(value: unknown): CertificateDetails | null {
+  if (!isRecord(value)) return null
+  const { subject, subjectAltNames, issuer, validFrom, validTo, keyType, keySize } = value
+  if (
+    !isString(subject) || !isStringArray(subjectAltNames) || !isString(issuer) ||
+    !isTimestamp(validFrom) || !isTimestamp(validTo) || !isString(keyType) || typeof keySize !== 'number'
+  ) {
+    return null
+  }
+  const certificate: CertificateDetails = { subject, subjectAltNames, issuer, validFrom, validTo, keyType, keySize }
+  return copyOptionalText(certificate, value, ['serialNumber', 'fingerprintSha256']) ? certificate : null
+}
+
+function parseSct(value: unknown): SctDetails | null {
+  if (!isRecord(value)) return null
+  const { logName, logId, timestamp, origin } = value
+  if (!isString(logName) || !isString(logId) || !isTimestamp(timestamp)) return null
+  if (origin !== undefined && origin !== 'embedded' && origin !== 'tls_extension' && origin !== 'ocsp') return null
+  const sct: SctDetails = { logName, logId, timestamp, ...(origin ? { origin } : {}) }
+  return copyOptionalText(sct, value, ['signatureAlgorithm']) ? sct : null
+}
+
+// Same contract as parseAnalysisResult, for the TLS panel's details
+export function parseTlsDetails(value: unknown): TlsDetails | null {
+  if (!isRecord(value) || !Array.isArray(value.chain) || value.chain.length === 0) return null
+  if (!isStringArray(value.protocols) || !isStringArray(value.cipherSuites)) return null
+  const chain = value.chain.map(parseCertificate)
+  if (chain.some((certificate) => certificate === null)) return null
+  const tls: TlsDetails = { chain: chain as CertificateDetails[], protocols: value.protocols, cipherSuites: value.cipherSuites }
+  if (value.scts !== undefined) {
+    if (!Array.isArray(value.scts)) return null
+    const scts = value.scts.map(parseSct)
+    if (scts.some((sct) => sct === null)) return null
+    tls.scts = scts as SctDetails[]
+  }
+  return tls
+}
+
+// Same contract as parseAnalysisResult, for a verdict judged elsewhere
+export function parseVerdict(value: unknown): Verdict | null {
+  if (!isRecord(value)) return null
+  const { status, title, description, score, hasHighSeverityIssues } = value
+  if (
+    !SAFETY_STATUSES.includes(status as SafetyStatus) || !isString(title) || !isString(description) ||
+    typeof score !== 'number' || typeof hasHighSeverityIssues !== 'boolean'
+  ) {
+    return null
+  }
+  return {
+    status: status as SafetyStatus,
+    title,
+    description,
+    score: Math.min(100, Math.max(0, score)),
+    hasHighSeverityIssues,
+  }
+}
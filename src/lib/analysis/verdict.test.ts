@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import type { AnalysisResult, CategoryResult, SecurityIssue } from './types'
+import { computeVerdict, statusForScore, type VerdictPolicy } from './verdict'
+
+const policy: VerdictPolicy = { safeThreshold: 80, cautionThreshold: 60, unsafeOnHighSeverity: true }
+
+const issue = (severity: SecurityIssue['severity']): SecurityIssue => ({ message: 'Finding', severity })
+
+const category = (score: number, issues: SecurityIssue[] = []): CategoryResult => ({ score, issues })
+
+// Every category scores `score`, so the overall score is `score` too
+function resultScoring(score: number, issues: SecurityIssue[] = []): AnalysisResult {
+  return {
+    ssl: category(score, issues),
+    contentSecurity: category(score),
+    vulnerabilities: category(score),
+    phishing: category(score),
+    malware: category(score),
+    webAttacks: category(score),
+    certificateTransparency: category(score),
+    libraries: category(score),
+  }
+}
+
+describe('statusForScore', () => {
+  it('applies the thresholds inclusively', () => {
+    expect(statusForScore(100, policy)).toBe('safe')
+    expect(statusForScore(80, policy)).toBe('safe')
+    expect(statusForScore(79, policy)).toBe('caution')
+    expect(statusForScore(60, policy)).toBe('caution')
+    expect(statusForScore(59, policy)).toBe('unsafe')
+    expect(statusForScore(0, policy)).toBe('unsafe')
+  })
+
+  it('follows a custom policy', () => {
+    const strict = { ...policy, safeThreshold: 95, cautionThreshold: 85 }
+    expect(statusForScore(90, strict)).toBe('caution')
+    expect(statusForScore(84, strict)).toBe('unsafe')
+  })
+})
+
+describe('computeVerdict', () => {
+  it('judges by the overall score when there are no high severity issues', () => {
+    expect(computeVerdict(resultScoring(85), policy)).toMatchObject({ status: 'safe', score: 85, hasHighSeverityIssues: false })
+    expect(computeVerdict(resultScoring(70, [issue('medium')]), policy).status).toBe('caution')
+    expect(computeVerdict(resultScoring(40), policy).status).toBe('unsafe')
+  })
+
+  it('is unsafe on any high severity issue, whatever the score', () => {
+    const verdict = computeVerdict(resultScoring(95, [issue('high')]), policy)
+    expect(verdict).toMatchObject({ status: 'unsafe', score: 95, hasHighSeverityIssues: true })
+    expect(verdict.title).toBe('Security Risks Detected')
+  })
+
+  it('ignores high severity issues when the policy says so', () => {
+    const verdict = computeVerdict(resultScoring(95, [issue('high')]), { ...policy, unsafeOnHighSeverity: false })
+    expect(verdict).toMatchObject({ status: 'safe', hasHighSeverityIssues: true })
+  })
+
+  it('leaves unavailable categories out of the score', () => {
+    const result = { ...resultScoring(90), malware: { score: 0, issues: [], error: 'malware_check: missing from response' } }
+    expect(computeVerdict(result, policy)).toMatchObject({ status: 'safe', score: 90 })
+  })
+})
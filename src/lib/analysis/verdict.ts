@@ -0,0 +1,73 @@
+import { env } from '@/config/env'
+import { overallScore } from './scoring'
+import { categoryEntries, type AnalysisResult } from './types'
+
+export type SafetyStatus = 'safe' | 'caution' | 'unsafe'
+
+// Best first
+export const SAFETY_STATUSES: SafetyStatus[] = ['safe', 'caution', 'unsafe']
+
+export interface VerdictPolicy {
+  // Minimum overall score for a "safe" verdict
+  safeThreshold: number
+  // Minimum overall score for a "caution" verdict; anything lower is unsafe
+  cautionThreshold: number
+  // Any high severity finding forces an "unsafe" verdict regardless of score
+  unsafeOnHighSeverity: boolean
+}
+
+export interface Verdict {
+  status: SafetyStatus
+  title: string
+  description: string
+  score: number
+  hasHighSeverityIssues: boolean
+}
+
+export const DEFAULT_VERDICT_POLICY: VerdictPolicy = env.verdict
+
+const verdictCopy: Record<SafetyStatus, Pick<Verdict, 'title' | 'description'>> = {
+  safe: {
+    title: 'Website Appears Safe',
+    description: 'This website has good security practices in place. You can proceed with confidence.',
+  },
+  caution: {
+    title: 'Exercise Caution',
+    description: 'This website has some security concerns. Be careful when sharing sensitive information.',
+  },
+  unsafe: {
+    title: 'Security Risks Detected',
+    description: 'This website has significant security issues. We strongly recommend against proceeding.',
+  },
+}
+
+export function hasHighSeverityIssues(result: AnalysisResult): boolean {
+  return categoryEntries(result).some(([, category]) => category.issues.some((issue) => issue.severity === 'high'))
+}
+
+export function highSeverityCount(result: AnalysisResult): number {
+  return categoryEntries(result).reduce(
+    (acc, [, category]) => acc + category.issues.filter((issue) => issue.severity === 'high').length,
+    0
+  )
+}
+
+// Status for a bare score, ignoring findings; also used to tint score displays
+export function statusForScore(score: number, policy: VerdictPolicy = DEFAULT_VERDICT_POLICY): SafetyStatus {
+  if (score >= policy.safeThreshold) return 'safe'
+  if (score >= policy.cautionThreshold) return 'caution'
+  return 'unsafe'
+}
+
+export function computeVerdict(result: AnalysisResult, policy: VerdictPolicy = DEFAULT_VERDICT_POLICY): Verdict {
+  const score = overallScore(result)
+  const highSeverity = hasHighSeverityIssues(result)
+  const status = highSeverity && policy.unsafeOnHighSeverity ? 'unsafe' : statusForScore(score, policy)
+
+  return {
+    status,
+    ...verdictCopy[status],
+    score,
+    hasHighSeverityIssues: highSeverity,
+  }
+}
@@ -0,0 +1,13 @@
+// The ADMIN_API_TOKEN typed into the admin pages, kept for the browser session only
+
+const STORAGE_KEY = 'securecheck:admin-token'
+
+export function getAdminToken(): string | undefined {
+  if (typeof window === 'undefined') return undefined
+  return window.sessionStorage.getItem(STORAGE_KEY) ?? undefined
+}
+
+export function setAdminToken(token: string) {
+  if (token) window.sessionStorage.setItem(STORAGE_KEY, token)
+  else window.sessionStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,283 @@
+// Response schema and runtime validation for the backend /check-website endpoint.
+// Each section is validated on its own so a partial payload still yields the
+// sections that are well-formed, alongside a reason for every one that is not.
+
+export type RiskLevel = 'high' | 'medium' | 'low'
+
+// Checks may optionally report their own 0-100 sub-score
+interface ScoredCheck {
+  score?: number
+}
+
+export interface RiskCheck extends ScoredCheck {
+  suspicious_patterns: string[]
+  risk_level: RiskLevel
+}
+
+export interface IssueCheck extends ScoredCheck {
+  issues: string[]
+}
+
+// Sent as a plain string, or as an object when the backend tags it, e.g.
+// { "text": "Upgrade jQuery", "tags": ["library"] }
+export interface Recommendation {
+  text: string
+  tags?: string[]
+}
+
+export interface TlsCertificate {
+  subject: string
+  san: string[]
+  issuer: string
+  // ISO 8601 timestamps
+  not_before: string
+  not_after: string
+  key_type: string
+  key_size: number
+  serial_number?: string
+  fingerprint_sha256?: string
+}
+
+export interface TlsCheck extends ScoredCheck {
+  // Leaf certificate first, then each issuer up to the root
+  certificate_chain: TlsCertificate[]
+  // Protocol versions the server accepted, e.g. "TLSv1.3"
+  protocols: string[]
+  // IANA names of the cipher suites the server accepted
+  cipher_suites: string[]
+}
+
+// A signed certificate timestamp: proof that a CT log accepted the certificate
+export interface SignedCertificateTimestamp {
+  log_name: string
+  log_id: string
+  timestamp: string
+  // How the SCT was delivered
+  origin?: 'embedded' | 'tls_extension' | 'ocsp'
+  signature_algorithm?: string
+}
+
+// A library the backend found on the page, e.g. { "name": "jquery", "version": "3.4.1" }
+export interface ReportedLibrary {
+  name: string
+  version?: string
+  // Where it was found, e.g. the script URL
+  source?: string
+}
+
+export interface CheckWebsiteResponse {
+  overall_score: number
+  security_headers: Record<string, string>
+  recommendations: Recommendation[]
+  xss_check: IssueCheck
+  phishing_check: RiskCheck
+  malware_check: RiskCheck
+  csrf_check: IssueCheck
+  ct_check: ScoredCheck & { ct_status: string; scts?: SignedCertificateTimestamp[] }
+  tls_check: TlsCheck
+  detected_libraries: ReportedLibrary[]
+}
+
+export type SectionKey = keyof CheckWebsiteResponse
+
+export interface ValidatedCheckWebsiteResponse {
+  sections: Partial<CheckWebsiteResponse>
+  errors: Partial<Record<SectionKey, string>>
+  // When the proxy says the scan ran; a cache hit keeps the original scan's time
+  scannedAt?: string
+}
+
+type Validator<T> = (value: unknown) => T
+
+class SchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchemaError'
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const score: Validator<number> = (value) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError('expected a numeric score')
+  }
+  return Math.min(100, Math.max(0, value))
+}
+
+const string: Validator<string> = (value) => {
+  if (typeof value !== 'string') throw new SchemaError('expected a string')
+  return value
+}
+
+const stringArray: Validator<string[]> = (value) => {
+  if (!Array.isArray(value)) throw new SchemaError('expected an array')
+  return value.map((item, index) => {
+    if (typeof item !== 'string') throw new SchemaError(`item ${index} is not a string`)
+    return item
+  })
+}
+
+const timestamp: Validator<string> = (value) => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) throw new SchemaError('expected a timestamp')
+  return value
+}
+
+const positiveInteger: Validator<number> = (value) => {
+  if (!Number.isInteger(value) || (value as number) <= 0) throw new SchemaError('expected a positive integer')
+  return value as number
+}
+
+const arrayOf = <T>(validate: Validator<T>): Validator<T[]> => (value) => {
+  if (!Array.isArray(value)) throw new SchemaError('expected an array')
+  return value.map((item, index) => {
+    try {
+      return validate(item)
+    } catch (error) {
+      throw new SchemaError(`item ${index}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+}
+
+const stringMap: Validator<Record<string, string>> = (value) => {
+  if (!isRecord(value)) throw new SchemaError('expected an object')
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, String(item)])
+  )
+}
+
+const field = <T>(value: unknown, key: string, validate: Validator<T>): T => {
+  if (!isRecord(value)) throw new SchemaError('expected an object')
+  if (!(key in value)) throw new SchemaError(`missing "${key}"`)
+  try {
+    return validate(value[key])
+  } catch (error) {
+    throw new SchemaError(`"${key}": ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+const optionalField = <T>(value: unknown, key: string, validate: Validator<T>): T | undefined =>
+  isRecord(value) && value[key] !== undefined && value[key] !== null
+    ? field(value, key, validate)
+    : undefined
+
+const recommendation: Validator<Recommendation> = (value) => {
+  if (typeof value === 'string') return { text: value }
+  return {
+    text: field(value, 'text', string),
+    tags: optionalField(value, 'tags', stringArray),
+  }
+}
+
+const riskLevel: Validator<RiskLevel> = (value) => {
+  if (value === 'high' || value === 'medium' || value === 'low') return value
+  throw new SchemaError(`unknown risk level "${String(value)}"`)
+}
+
+const riskCheck: Validator<RiskCheck> = (value) => ({
+  suspicious_patterns: field(value, 'suspicious_patterns', stringArray),
+  risk_level: field(value, 'risk_level', riskLevel),
+  score: optionalField(value, 'score', score),
+})
+
+const issueCheck: Validator<IssueCheck> = (value) => ({
+  issues: field(value, 'issues', stringArray),
+  score: optionalField(value, 'score', score),
+})
+
+const certificate: Validator<TlsCertificate> = (value) => ({
+  subject: field(value, 'subject', string),
+  san: field(value, 'san', stringArray),
+  issuer: field(value, 'issuer', string),
+  not_before: field(value, 'not_before', timestamp),
+  not_after: field(value, 'not_after', timestamp),
+  key_type: field(value, 'key_type', string),
+  key_size: field(value, 'key_size', positiveInteger),
+  serial_number: optionalField(value, 'serial_number', string),
+  fingerprint_sha256: optionalField(value, 'fingerprint_sha256', string),
+})
+
+const tlsCheck: Validator<TlsCheck> = (value) => {
+  const chain = field(value, 'certificate_chain', arrayOf(certificate))
+  if (chain.length === 0) throw new SchemaError('"certificate_chain": expected at least the leaf certificate')
+  return {
+    certificate_chain: chain,
+    protocols: field(value, 'protocols', stringArray),
+    cipher_suites: field(value, 'cipher_suites', stringArray),
+    score: optionalField(value, 'score', score),
+  }
+}
+
+const sctOrigin: Validator<NonNullable<SignedCertificateTimestamp['origin']>> = (value) => {
+  if (value === 'embedded' || value === 'tls_extension' || value === 'ocsp') return value
+  throw new SchemaError(`unknown SCT origin "${String(value)}"`)
+}
+
+const sct: Validator<SignedCertificateTimestamp> = (value) => ({
+  log_name: field(value, 'log_name', string),
+  log_id: field(value, 'log_id', string),
+  timestamp: field(value, 'timestamp', timestamp),
+  origin: optionalField(value, 'origin', sctOrigin),
+  signature_algorithm: optionalField(value, 'signature_algorithm', string),
+})
+
+const reportedLibrary: Validator<ReportedLibrary> = (value) => ({
+  name: field(value, 'name', string),
+  version: optionalField(value, 'version', string),
+  source: optionalField(value, 'source', string),
+})
+
+const validators: { [K in SectionKey]: Validator<CheckWebsiteResponse[K]> } = {
+  overall_score: score,
+  security_headers: stringMap,
+  recommendations: arrayOf(recommendation),
+  xss_check: issueCheck,
+  phishing_check: riskCheck,
+  malware_check: riskCheck,
+  csrf_check: issueCheck,
+  ct_check: (value) => ({
+    ct_status: field(value, 'ct_status', string),
+    scts: optionalField(value, 'scts', arrayOf(sct)),
+    score: optionalField(value, 'score', score),
+  }),
+  tls_check: tlsCheck,
+  detected_libraries: arrayOf(reportedLibrary),
+}
+
+export const SECTION_KEYS = Object.keys(validators) as SectionKey[]
+
+// Reason recorded for a section the backend did not send
+export const MISSING_SECTION = 'missing from response'
+
+// Sections the backend may leave out; a missing one means nothing was found
+export const OPTIONAL_SECTIONS: SectionKey[] = ['detected_libraries']
+
+/**
+ * Validates a single section, e.g. one arriving on its own in a stream.
+ * Records either the section or the reason it was rejected on `target`.
+ */
+export function validateSection(target: ValidatedCheckWebsiteResponse, key: SectionKey, value: unknown) {
+  delete target.errors[key]
+  if (value === undefined || value === null) {
+    target.errors[key] = MISSING_SECTION
+    return
+  }
+  try {
+    // The mapped validator type guarantees the value matches the key
+    ;(target.sections as Record<SectionKey, unknown>)[key] = validators[key](value)
+  } catch (error) {
+    target.errors[key] = error instanceof Error ? error.message : 'invalid value'
+  }
+}
+
+export function validateCheckWebsiteResponse(payload: unknown): ValidatedCheckWebsiteResponse {
+  const result: ValidatedCheckWebsiteResponse = { sections: {}, errors: {} }
+  const body = isRecord(payload) ? payload : {}
+
+  for (const key of SECTION_KEYS) {
+    validateSection(result, key, body[key])
+  }
+
+  return result
+}
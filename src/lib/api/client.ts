@@ -0,0 +1,269 @@
+import {
+  MISSING_SECTION,
+  OPTIONAL_SECTIONS,
+  validateCheckWebsiteResponse,
+  validateSection,
+  type SectionKey,
+  type ValidatedCheckWebsiteResponse,
+} from './check-website'
+import { API_ERROR_MESSAGES, isApiErrorBody, type ApiErrorCode } from './errors'
+import { readNdjson, type ScanEvent } from './stream'
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    // Server-requested delay before retrying, from a Retry-After header
+    public readonly retryAfterMs?: number,
+    public readonly code?: ApiErrorCode
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Fallback for error responses that do not carry a structured body
+const codeForStatus = (status: number): ApiErrorCode =>
+  status === 404 ? 'not_found'
+  : status === 429 ? 'rate_limited'
+  : status === 401 ? 'unauthorized'
+  : status === 400 ? 'invalid_url'
+  : status === 504 ? 'upstream_timeout'
+  : 'upstream_error'
+
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+  const body: unknown = await response.json().catch(() => null)
+  if (isApiErrorBody(body)) {
+    return new ApiError(body.error.message, response.status, retryAfterMs, body.error.code)
+  }
+  const code = codeForStatus(response.status)
+  return new ApiError(API_ERROR_MESSAGES[code], response.status, retryAfterMs, code)
+}
+
+/**
+ * Calls one of this app's JSON routes, sending `body` as JSON and `token` as
+ * a bearer token. Error statuses reject with an ApiError; 204 resolves with
+ * undefined.
+ */
+export async function requestJson<T>(
+  path: string,
+  { method = 'GET', body, token }: { method?: string; body?: unknown; token?: string } = {}
+): Promise<T> {
+  const headers: Record<string, string> = {}
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+  if (token) headers.Authorization = `Bearer ${token}`
+  const response = await fetch(path, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: 'no-store',
+  })
+  if (!response.ok) throw await errorFromResponse(response)
+  return (response.status === 204 ? undefined : await response.json()) as T
+}
+
+interface CheckWebsiteOptions {
+  // Origin of this app; empty for same-origin requests from the browser
+  baseUrl?: string
+  // Aborting rejects the call with an AbortError, see isAbortError
+  signal?: AbortSignal
+  // Gives up with an upstream_timeout ApiError after this long
+  timeoutMs?: number
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError'
+
+/**
+ * Runs `request` with a signal that fires when the caller aborts or the
+ * timeout elapses, and turns the latter into an ApiError so callers can tell
+ * a cancelled scan from one that took too long.
+ */
+async function withDeadline<T>(
+  { signal, timeoutMs }: CheckWebsiteOptions,
+  request: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  if (signal?.aborted) abort()
+  signal?.addEventListener('abort', abort, { once: true })
+
+  let timedOut = false
+  const timer = timeoutMs && timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    : undefined
+
+  try {
+    return await request(controller.signal)
+  } catch (error) {
+    if (timedOut && isAbortError(error)) {
+      throw new ApiError(
+        `The analysis did not finish within ${Math.ceil((timeoutMs ?? 0) / 1000)} seconds`,
+        undefined,
+        undefined,
+        'upstream_timeout'
+      )
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abort)
+  }
+}
+
+export async function checkWebsite(
+  url: string,
+  options: CheckWebsiteOptions = {}
+): Promise<ValidatedCheckWebsiteResponse> {
+  return withDeadline(options, (signal) => fetchCheckWebsite(url, options.baseUrl ?? '', signal))
+}
+
+async function fetchCheckWebsite(
+  url: string,
+  baseUrl: string,
+  signal: AbortSignal
+): Promise<ValidatedCheckWebsiteResponse> {
+  const response = await fetch(`${baseUrl}/api/check-website`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url }),
+    signal,
+  })
+
+  if (!response.ok) {
+    throw await errorFromResponse(response)
+  }
+
+  let payload: unknown
+  try {
+    payload = await response.json()
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw new ApiError('Received an invalid response from the server', response.status)
+  }
+
+  const validated = validateCheckWebsiteResponse(payload)
+  if (Object.keys(validated.sections).length === 0) {
+    throw new ApiError('Received an empty analysis from the server', response.status)
+  }
+  const scannedAt = response.headers.get('X-Scanned-At')
+  return scannedAt ? { ...validated, scannedAt } : validated
+}
+
+export interface CheckState {
+  status: 'pending' | 'done' | 'failed'
+  // Time from the start of the scan until this check finished
+  durationMs?: number
+  error?: string
+}
+
+export interface StreamProgress {
+  response: ValidatedCheckWebsiteResponse
+  checks: Partial<Record<SectionKey, CheckState>>
+}
+
+/**
+ * Like checkWebsite, but consumes the streaming route and reports progress
+ * after every event so results can be rendered check by check.
+ */
+export async function streamCheckWebsite(
+  url: string,
+  onProgress: (progress: StreamProgress) => void,
+  options: CheckWebsiteOptions = {}
+): Promise<ValidatedCheckWebsiteResponse> {
+  return withDeadline(options, (signal) => fetchStream(url, onProgress, options.baseUrl ?? '', signal))
+}
+
+async function fetchStream(
+  url: string,
+  onProgress: (progress: StreamProgress) => void,
+  baseUrl: string,
+  signal: AbortSignal
+): Promise<ValidatedCheckWebsiteResponse> {
+  const response = await fetch(`${baseUrl}/api/check-website/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ url }),
+    signal,
+  })
+
+  if (!response.ok) {
+    throw await errorFromResponse(response)
+  }
+  if (!response.body) {
+    throw new ApiError('Received an invalid response from the server', response.status)
+  }
+
+  const validated: ValidatedCheckWebsiteResponse = { sections: {}, errors: {} }
+  const checks: StreamProgress['checks'] = {}
+  const report = () => onProgress({
+    response: { sections: { ...validated.sections }, errors: { ...validated.errors } },
+    checks: { ...checks },
+  })
+
+  let finished = false
+  for await (const line of readNdjson(response.body)) {
+    // Lines already buffered when the scan was aborted must not be reported
+    signal.throwIfAborted()
+    const event = line as ScanEvent
+    switch (event.type) {
+      case 'start':
+        event.checks.forEach((key) => {
+          checks[key] = { status: 'pending' }
+          validated.errors[key] = 'still running'
+        })
+        break
+      case 'section':
+        validateSection(validated, event.section, event.data)
+        checks[event.section] = validated.errors[event.section]
+          ? { status: 'failed', durationMs: event.durationMs, error: validated.errors[event.section] }
+          : { status: 'done', durationMs: event.durationMs }
+        break
+      case 'section_error':
+        validated.errors[event.section] = event.message
+        checks[event.section] = { status: 'failed', durationMs: event.durationMs, error: event.message }
+        break
+      case 'error':
+        throw new ApiError(event.error.message, response.status, undefined, event.error.code)
+      case 'done':
+        finished = true
+        validated.scannedAt = event.scannedAt
+        break
+    }
+    report()
+  }
+
+  if (!finished) {
+    throw new ApiError('The scan was interrupted', response.status)
+  }
+
+  // Checks the stream announced but never delivered
+  for (const [key, state] of Object.entries(checks) as [SectionKey, CheckState][]) {
+    if (state.status === 'pending') {
+      validated.errors[key] = MISSING_SECTION
+      checks[key] = OPTIONAL_SECTIONS.includes(key) ? { status: 'done' } : { status: 'failed', error: MISSING_SECTION }
+    }
+  }
+  report()
+
+  if (Object.keys(validated.sections).length === 0) {
+    throw new ApiError('Received an empty analysis from the server', response.status)
+  }
+  return validated
+}
@@ -0,0 +1,38 @@
+// Error contract between the /api routes and the UI. Route handlers respond
+// with `{ error: { code, message } }`; the client maps the code to copy.
+
+export type ApiErrorCode =
+  | 'invalid_url'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'unauthorized'
+  | 'not_found'
+  | 'upstream_error'
+  | 'upstream_unavailable'
+  | 'upstream_timeout'
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode
+    message: string
+  }
+}
+
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  invalid_url: 'Invalid URL format',
+  invalid_request: 'The request could not be understood',
+  rate_limited: 'Too many requests, please try again later',
+  unauthorized: 'A valid admin token is required',
+  not_found: 'Website not found',
+  upstream_error: 'Failed to analyze website',
+  upstream_unavailable: 'The security scanner is currently unavailable',
+  upstream_timeout: 'The security scanner took too long to respond',
+}
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  if (typeof value !== 'object' || value === null) return false
+  const { error } = value as { error?: unknown }
+  return typeof error === 'object' && error !== null &&
+    typeof (error as ApiErrorBody['error']).code === 'string' &&
+    (error as ApiErrorBody['error']).code in API_ERROR_MESSAGES
+}
@@ -0,0 +1,42 @@
+import type { ApiErrorBody } from './errors'
+import type { SectionKey } from './check-website'
+
+// Events of the NDJSON stream served by /api/check-website/stream, one JSON
+// object per line, in this order: start, any number of section/section_error,
+// then done. An error event may replace everything after start.
+export type ScanEvent =
+  | { type: 'start'; url: string; checks: SectionKey[] }
+  | { type: 'section'; section: SectionKey; data: unknown; durationMs: number }
+  | { type: 'section_error'; section: SectionKey; message: string; durationMs: number }
+  | { type: 'done'; durationMs: number; cached: boolean; scannedAt: string }
+  | ({ type: 'error' } & ApiErrorBody)
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+export function encodeEvent(event: ScanEvent): string {
+  return JSON.stringify(event) + '\n'
+}
+
+/**
+ * Yields each JSON line of a streamed response body as it arrives.
+ */
+export async function* readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      let newline: number
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (line) yield JSON.parse(line)
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer)
+  } finally {
+    reader.releaseLock()
+  }
+}
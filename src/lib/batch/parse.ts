@@ -0,0 +1,50 @@
+// Splits one CSV line into cells, honouring double-quoted cells
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+  return cells.map((cell) => cell.trim())
+}
+
+const looksLikeUrl = (value: string) =>
+  /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(:\d+)?(\/\S*)?$/i.test(value)
+
+/**
+ * Reads URLs from a pasted list or CSV file. Blank lines and lines starting
+ * with "#" are skipped. For CSV input, a column headed "url" is used when
+ * present, otherwise the first cell that looks like a URL. Bare hostnames get
+ * an https:// scheme, and duplicates are dropped, keeping the first occurrence.
+ */
+export function parseUrlList(text: string): string[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'))
+  if (lines.length === 0) return []
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase())
+  const urlColumn = header.findIndex((cell) => cell === 'url' || cell === 'website' || cell === 'domain')
+  const rows = urlColumn === -1 ? lines : lines.slice(1)
+
+  const urls = rows.flatMap((line) => {
+    const cells = splitCsvLine(line)
+    const value = urlColumn === -1 ? cells.find(looksLikeUrl) : cells[urlColumn]
+    if (!value || !looksLikeUrl(value)) return []
+    return [/^https?:\/\//i.test(value) ? value : `https://${value}`]
+  })
+  return [...new Set(urls)]
+}
@@ -0,0 +1,95 @@
+import { ApiError } from '@/lib/api/client'
+import type { ScanOutcome } from '@/lib/analysis/run'
+
+export type BatchItemStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled'
+
+export interface BatchItem {
+  url: string
+  status: BatchItemStatus
+  attempts: number
+  outcome?: ScanOutcome
+  error?: string
+}
+
+export interface BatchOptions {
+  concurrency?: number
+  // Retries per URL after a 429 response
+  maxRetries?: number
+  // First backoff delay when the server does not send Retry-After; doubles each retry
+  baseDelayMs?: number
+  signal?: AbortSignal
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const onAbort = () => {
+    clearTimeout(timer)
+    resolve()
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/**
+ * Scans every URL with at most `concurrency` requests in flight. A 429
+ * response pauses the whole queue, not just the worker that saw it, for the
+ * Retry-After period or an exponential backoff, then retries that URL.
+ * `onUpdate` receives each item's state whenever it changes. Aborting
+ * `signal` is passed on to `scan`, so scans in flight are cancelled too.
+ */
+export async function runBatch(
+  urls: string[],
+  scan: (url: string, signal?: AbortSignal) => Promise<ScanOutcome>,
+  onUpdate: (index: number, item: BatchItem) => void,
+  { concurrency = 3, maxRetries = 4, baseDelayMs = 2000, signal }: BatchOptions = {}
+): Promise<BatchItem[]> {
+  const items: BatchItem[] = urls.map((url) => ({ url, status: 'queued', attempts: 0 }))
+  let next = 0
+  let resumeAt = 0
+
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...changes }
+    onUpdate(index, items[index])
+  }
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      while (!signal?.aborted) {
+        if (Date.now() < resumeAt) {
+          update(index, { status: 'waiting' })
+          await sleep(resumeAt - Date.now(), signal)
+          continue
+        }
+
+        update(index, { status: 'running', attempts: items[index].attempts + 1 })
+        try {
+          update(index, { status: 'done', outcome: await scan(items[index].url, signal), error: undefined })
+          break
+        } catch (error) {
+          if (signal?.aborted) {
+            update(index, { status: 'cancelled' })
+            break
+          }
+          const rateLimited = error instanceof ApiError && error.status === 429
+          if (rateLimited && items[index].attempts <= maxRetries) {
+            const delay = error.retryAfterMs ?? baseDelayMs * 2 ** (items[index].attempts - 1)
+            resumeAt = Math.max(resumeAt, Date.now() + delay)
+            continue
+          }
+          update(index, { status: 'failed', error: error instanceof Error ? error.message : 'Analysis failed' })
+          break
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker))
+
+  items.forEach((item, index) => {
+    if (item.status === 'queued' || item.status === 'waiting') update(index, { status: 'cancelled' })
+  })
+  return items
+}
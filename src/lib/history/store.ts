@@ -0,0 +1,78 @@
+import type { ScanOutcome } from '@/lib/analysis/run'
+
+export interface ScanRecord extends ScanOutcome {
+  id: string
+}
+
+const STORAGE_KEY = 'securecheck:scan-history'
+// Oldest scans are dropped beyond this to stay well inside the localStorage quota
+const MAX_RECORDS = 100
+
+type Listener = () => void
+const listeners = new Set<Listener>()
+
+const isScanRecord = (value: unknown): value is ScanRecord =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as ScanRecord).id === 'string' &&
+  typeof (value as ScanRecord).url === 'string' &&
+  typeof (value as ScanRecord).scannedAt === 'string' &&
+  typeof (value as ScanRecord).result === 'object' &&
+  typeof (value as ScanRecord).verdict === 'object'
+
+function read(): ScanRecord[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed.filter(isScanRecord) : []
+  } catch {
+    return []
+  }
+}
+
+function write(records: ScanRecord[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(0, MAX_RECORDS)))
+  listeners.forEach((listener) => listener())
+}
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+// Newest first
+export function listScans(): ScanRecord[] {
+  return read()
+}
+
+export function getScan(id: string): ScanRecord | undefined {
+  return read().find((record) => record.id === id)
+}
+
+export function saveScan(outcome: ScanOutcome): ScanRecord {
+  const record: ScanRecord = { id: newId(), ...outcome }
+  write([record, ...read()])
+  return record
+}
+
+export function deleteScan(id: string) {
+  write(read().filter((record) => record.id !== id))
+}
+
+export function clearHistory() {
+  write([])
+}
+
+/**
+ * Notifies the listener whenever history changes, in this tab or another one.
+ */
+export function subscribeHistory(listener: Listener): () => void {
+  listeners.add(listener)
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener()
+  }
+  window.addEventListener('storage', onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', onStorage)
+  }
+}
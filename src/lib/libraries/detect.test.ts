@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { detectLibrary, identifyLibrary } from './detect'
+
+const versionOf = (src: string) => detectLibrary(src)?.version
+
+describe('detectLibrary', () => {
+  it('reads the version from the file name, package specifier or directory', () => {
+    expect(versionOf('https://code.jquery.com/jquery-3.5.1.min.js')).toBe('3.5.1')
+    expect(versionOf('https://cdn.jsdelivr.net/npm/jquery@3.5.1/dist/jquery.min.js')).toBe('3.5.1')
+    expect(versionOf('https://cdnjs.cloudflare.com/ajax/libs/jquery/3.5.1/jquery.min.js')).toBe('3.5.1')
+    expect(versionOf('https://code.jquery.com/ui/1.12.1/jquery-ui.min.js')).toBe('1.12.1')
+    expect(versionOf('/wp-includes/js/jquery/jquery.min.js?ver=3.6.0')).toBe('3.6.0')
+  })
+
+  it('leaves file and build suffixes out of the version', () => {
+    expect(versionOf('/js/jquery-1.12.4-min.js')).toBe('1.12.4')
+    expect(versionOf('/js/jquery.js?ver=1.12.4-wp')).toBe('1.12.4')
+    expect(versionOf('/js/jquery-1.12.4.js')).toBe('1.12.4')
+  })
+
+  it('keeps semver prerelease tags', () => {
+    expect(versionOf('/js/jquery-3.0.0-rc1.min.js')).toBe('3.0.0-rc1')
+    expect(versionOf('/npm/vue@3.0.0-beta.2/dist/vue.js')).toBe('3.0.0-beta.2')
+  })
+
+  it('prefers the longer token, so jQuery UI is not read as jQuery', () => {
+    expect(detectLibrary('/js/jquery-ui-1.12.1.min.js')).toMatchObject({ name: 'jQuery UI', version: '1.12.1' })
+  })
+
+  it('recognizes a library without a version, and ignores unknown scripts', () => {
+    expect(detectLibrary('/assets/jquery.min.js')).toEqual({ name: 'jQuery', component: 'jquery', source: '/assets/jquery.min.js' })
+    expect(detectLibrary('/assets/app.bundle.js')).toBeNull()
+    expect(detectLibrary('/assets/reactive-forms.js')).toBeNull()
+  })
+})
+
+describe('identifyLibrary', () => {
+  it('matches display names, tokens and dataset components', () => {
+    expect(identifyLibrary('Moment.js')).toEqual({ name: 'Moment.js', component: 'moment.js' })
+    expect(identifyLibrary('underscore')).toEqual({ name: 'Underscore', component: 'underscore.js' })
+  })
+
+  it('keeps unknown libraries under their lowercased name', () => {
+    expect(identifyLibrary(' Alpine ')).toEqual({ name: 'Alpine', component: 'alpine' })
+  })
+})
@@ -0,0 +1,83 @@
+export interface DetectedLibrary {
+  name: string
+  // Key into the vulnerability dataset, e.g. "jquery" or "moment.js"
+  component: string
+  // Undefined when the version could not be determined
+  version?: string
+  // Where it was identified, e.g. the script URL
+  source?: string
+}
+
+// Display name, the token the library's files and packages are named with,
+// and its component name in the vulnerability dataset. Longer tokens come
+// first so "jquery-ui" is not read as "jquery".
+const KNOWN_LIBRARIES: { name: string; token: string; component: string }[] = [
+  { name: 'jQuery UI', token: 'jquery-ui', component: 'jquery-ui' },
+  { name: 'jQuery Migrate', token: 'jquery-migrate', component: 'jquery-migrate' },
+  { name: 'jQuery', token: 'jquery', component: 'jquery' },
+  { name: 'React DOM', token: 'react-dom', component: 'react-dom' },
+  { name: 'React', token: 'react', component: 'react' },
+  { name: 'AngularJS', token: 'angular', component: 'angularjs' },
+  { name: 'Vue', token: 'vue', component: 'vue' },
+  { name: 'Bootstrap', token: 'bootstrap', component: 'bootstrap' },
+  { name: 'Lodash', token: 'lodash', component: 'lodash' },
+  { name: 'Underscore', token: 'underscore', component: 'underscore.js' },
+  { name: 'Moment.js', token: 'moment', component: 'moment.js' },
+  { name: 'Handlebars', token: 'handlebars', component: 'handlebars' },
+  { name: 'DOMPurify', token: 'dompurify', component: 'dompurify' },
+  { name: 'Axios', token: 'axios', component: 'axios' },
+  { name: 'Backbone', token: 'backbone', component: 'backbone.js' },
+  { name: 'Knockout', token: 'knockout', component: 'knockout' },
+  { name: 'Ember', token: 'ember', component: 'ember' },
+  { name: 'Prototype', token: 'prototype', component: 'prototypejs' },
+]
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Only semver-style prerelease tags count as part of the version, so file
+// suffixes such as "-min.js" or WordPress's "-wp" are left out
+const VERSION = String.raw`v?(\d+(?:\.\d+){1,3}(?:-(?:alpha|beta|rc|pre)(?:[.-]?\d+)*)?)`
+// Version in the query string, e.g. WordPress's "?ver=3.6.0"
+const QUERY_VERSION = new RegExp(String.raw`[?&](?:ver|version|v)=${VERSION}`, 'i')
+
+function pathOf(src: string): { path: string; query: string } {
+  try {
+    const url = new URL(src, 'https://placeholder.invalid')
+    return { path: decodeURIComponent(url.pathname).toLowerCase(), query: url.search }
+  } catch {
+    return { path: src.toLowerCase(), query: '' }
+  }
+}
+
+/**
+ * Identifies the library a script URL loads, and its version when the URL
+ * carries one: "jquery-3.5.1.min.js", "jquery@3.5.1", ".../jquery/3.5.1/...",
+ * ".../ui/1.12.1/jquery-ui.min.js" and "jquery.min.js?ver=3.5.1" are all
+ * recognized. Returns null for scripts that are not a known library.
+ */
+export function detectLibrary(src: string): DetectedLibrary | null {
+  const { path, query } = pathOf(src)
+  for (const { name, token, component } of KNOWN_LIBRARIES) {
+    const escaped = escapeRegExp(token)
+    if (!new RegExp(String.raw`(^|[/@._-])${escaped}([/@._-]|$)`).test(path)) continue
+    const version =
+      new RegExp(String.raw`(?:^|[/@._-])${escaped}[/@.-]${VERSION}(?=[/._-]|$)`).exec(path)?.[1] ??
+      // A version directory holding the file itself
+      new RegExp(String.raw`/${VERSION}/[^/]*${escaped}[^/]*$`).exec(path)?.[1] ??
+      QUERY_VERSION.exec(query)?.[1]
+    return { name, component, source: src, ...(version ? { version } : {}) }
+  }
+  return null
+}
+
+/**
+ * Looks up a library by its display name, file token or dataset component,
+ * e.g. as reported by the backend. Unknown libraries keep their name, lowercased,
+ * as the component so they still match a dataset entry of that name.
+ */
+export function identifyLibrary(name: string): Pick<DetectedLibrary, 'name' | 'component'> {
+  const lowered = name.trim().toLowerCase()
+  const known = KNOWN_LIBRARIES.find((library) =>
+    [library.name.toLowerCase(), library.token, library.component].includes(lowered))
+  return known ? { name: known.name, component: known.component } : { name: name.trim(), component: lowered }
+}
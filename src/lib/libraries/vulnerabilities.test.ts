@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeLibraries, compareVersions, findAdvisories, parseRepository } from './vulnerabilities'
+
+const repository = parseRepository({
+  jquery: {
+    vulnerabilities: [
+      {
+        below: '3.5.0',
+        atOrAbove: '1.2.0',
+        severity: 'medium',
+        cwe: ['CWE-79'],
+        identifiers: { summary: 'XSS in htmlPrefilter', CVE: ['CVE-2020-11022'], githubID: 'GHSA-gxr4-xjj5-5px2' },
+      },
+      { above: '3.0.0-beta1', below: '3.0.0', severity: 'critical', identifiers: { bug: '2432' } },
+      // Malformed: no bounds at all
+      { severity: 'high', identifiers: { summary: 'Ignored' } },
+    ],
+  },
+  'Moment.js': { vulnerabilities: 'not a list' },
+})
+
+describe('compareVersions', () => {
+  it('compares each part numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.2')).toBe(1)
+    expect(compareVersions('1.2', '1.2.0')).toBe(0)
+    expect(compareVersions('v3.5.1', '3.5.1')).toBe(0)
+    expect(compareVersions('2.0.0', '10.0.0')).toBe(-1)
+  })
+
+  it('sorts a prerelease before its release', () => {
+    expect(compareVersions('3.0.0-beta1', '3.0.0')).toBe(-1)
+    expect(compareVersions('3.0.0', '3.0.0-rc1')).toBe(1)
+    expect(compareVersions('3.0.0-beta2', '3.0.0-beta10')).toBe(-1)
+  })
+})
+
+describe('findAdvisories', () => {
+  it('applies inclusive lower and exclusive upper bounds', () => {
+    expect(findAdvisories('jquery', '1.1.9', repository)).toEqual([])
+    expect(findAdvisories('jquery', '1.2.0', repository)).toHaveLength(1)
+    expect(findAdvisories('jquery', '3.4.1', repository)).toHaveLength(1)
+    expect(findAdvisories('jquery', '3.5.0', repository)).toEqual([])
+  })
+
+  it('describes the advisory with its range, fixed version and linkable IDs', () => {
+    expect(findAdvisories('jQuery', '3.4.1', repository)).toEqual([{
+      summary: 'XSS in htmlPrefilter',
+      severity: 'medium',
+      affected: '>=1.2.0 <3.5.0',
+      fixedIn: '3.5.0',
+      advisoryIds: ['CVE-2020-11022', 'GHSA-gxr4-xjj5-5px2'],
+      cwes: ['CWE-79'],
+    }])
+  })
+
+  it('matches prerelease ranges and maps critical to high', () => {
+    const advisories = findAdvisories('jquery', '3.0.0-rc1', repository)
+    expect(advisories).toHaveLength(2)
+    expect(advisories[1]).toMatchObject({ severity: 'high', affected: '>3.0.0-beta1 <3.0.0', summary: 'Known vulnerability', advisoryIds: [] })
+  })
+
+  it('skips malformed entries and unknown components', () => {
+    expect(findAdvisories('moment.js', '2.0.0', repository)).toEqual([])
+    expect(findAdvisories('left-pad', '1.0.0', repository)).toEqual([])
+  })
+})
+
+describe('analyzeLibraries', () => {
+  it('reports each library once, and one without a version as unchecked', () => {
+    const issues = analyzeLibraries([
+      { name: 'Axios', component: 'axios' },
+      { name: 'Axios', component: 'axios', source: '/js/axios.min.js' },
+    ])
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ ruleId: 'library-detected', message: 'Axios (version unknown, so it was not checked for advisories)' })
+  })
+})
@@ -0,0 +1,153 @@
+import { isAdvisoryId, ruleIssue } from '@/lib/analysis/rules'
+import type { IssueReference, SecurityIssue, Severity } from '@/lib/analysis/types'
+import type { DetectedLibrary } from './detect'
+import bundled from './jsrepository.json'
+
+// Known-vulnerable library versions, in the Retire.js repository format
+// (jsrepository.json). To update, replace jsrepository.json with a newer copy
+// of Retire.js's file or one in the same shape; only each component's
+// `vulnerabilities` are read, and malformed entries are skipped.
+
+export interface LibraryAdvisory {
+  summary: string
+  severity: Severity
+  // e.g. ">=1.2.0 <3.5.0"
+  affected: string
+  // The first version outside the affected range, when the advisory names one
+  fixedIn?: string
+  // CVE and GitHub advisory IDs
+  advisoryIds: string[]
+  cwes: string[]
+}
+
+interface VulnerableRange {
+  atOrAbove?: string
+  above?: string
+  below?: string
+  advisory: Omit<LibraryAdvisory, 'affected' | 'fixedIn'>
+}
+
+type Repository = Map<string, VulnerableRange[]>
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const toSeverity = (value: unknown): Severity =>
+  value === 'critical' || value === 'high' ? 'high' : value === 'low' ? 'low' : 'medium'
+
+function parseRange(value: unknown): VulnerableRange | null {
+  if (!isRecord(value)) return null
+  const bounds = { atOrAbove: optionalString(value.atOrAbove), above: optionalString(value.above), below: optionalString(value.below) }
+  if (!bounds.atOrAbove && !bounds.above && !bounds.below) return null
+  const identifiers = isRecord(value.identifiers) ? value.identifiers : {}
+  // IDs that cannot be linked (e.g. bug tracker numbers) are dropped
+  const advisoryIds = [...strings(identifiers.CVE), optionalString(identifiers.githubID) ?? ''].filter(isAdvisoryId)
+  return {
+    ...bounds,
+    advisory: {
+      summary: optionalString(identifiers.summary) ?? advisoryIds[0] ?? 'Known vulnerability',
+      severity: toSeverity(value.severity),
+      advisoryIds,
+      cwes: strings(value.cwe),
+    },
+  }
+}
+
+export function parseRepository(value: unknown): Repository {
+  const repository: Repository = new Map()
+  if (!isRecord(value)) return repository
+  for (const [component, entry] of Object.entries(value)) {
+    if (!isRecord(entry) || !Array.isArray(entry.vulnerabilities)) continue
+    const ranges = entry.vulnerabilities.map(parseRange).filter((range): range is VulnerableRange => range !== null)
+    if (ranges.length > 0) repository.set(component.toLowerCase(), ranges)
+  }
+  return repository
+}
+
+const BUNDLED_REPOSITORY = parseRepository(bundled)
+
+const splitVersion = (version: string) => {
+  const [release, ...prerelease] = version.trim().replace(/^v/i, '').split('-')
+  return { release: release.split('.').map((part) => Number.parseInt(part, 10) || 0), prerelease: prerelease.join('-') }
+}
+
+/**
+ * Compares dotted versions numerically, e.g. 1.10.0 > 1.9.2. A prerelease
+ * sorts before its release (3.0.0-beta1 < 3.0.0), as in semver.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = splitVersion(a)
+  const right = splitVersion(b)
+  for (let i = 0; i < Math.max(left.release.length, right.release.length); i++) {
+    const difference = (left.release[i] ?? 0) - (right.release[i] ?? 0)
+    if (difference !== 0) return Math.sign(difference)
+  }
+  if (left.prerelease === right.prerelease) return 0
+  if (!left.prerelease) return 1
+  if (!right.prerelease) return -1
+  return left.prerelease.localeCompare(right.prerelease, undefined, { numeric: true })
+}
+
+const inRange = (version: string, { atOrAbove, above, below }: VulnerableRange) =>
+  (!atOrAbove || compareVersions(version, atOrAbove) >= 0) &&
+  (!above || compareVersions(version, above) > 0) &&
+  (!below || compareVersions(version, below) < 0)
+
+const describeRange = ({ atOrAbove, above, below }: VulnerableRange) =>
+  [atOrAbove && `>=${atOrAbove}`, above && `>${above}`, below && `<${below}`].filter(Boolean).join(' ')
+
+export function findAdvisories(component: string, version: string, repository: Repository = BUNDLED_REPOSITORY): LibraryAdvisory[] {
+  return (repository.get(component.toLowerCase()) ?? [])
+    .filter((range) => inRange(version, range))
+    .map((range) => ({
+      ...range.advisory,
+      affected: describeRange(range),
+      ...(range.below ? { fixedIn: range.below } : {}),
+    }))
+}
+
+const advisoryReferences = ({ advisoryIds, cwes }: LibraryAdvisory): IssueReference[] => [
+  ...advisoryIds.map((id): IssueReference => ({ type: 'advisory', id })),
+  ...cwes.filter((id) => /^CWE-\d+$/.test(id)).map((id): IssueReference => ({ type: 'cwe', id })),
+]
+
+/**
+ * Checks each library against the vulnerability dataset: one issue per
+ * matching advisory, with its affected range, fixed version and IDs, or an
+ * informational issue when no advisory applies or the version is unknown.
+ */
+export function analyzeLibraries(libraries: DetectedLibrary[]): SecurityIssue[] {
+  const seen = new Set<string>()
+  return libraries.flatMap((library) => {
+    const key = `${library.component}@${library.version ?? ''}`
+    if (seen.has(key)) return []
+    seen.add(key)
+
+    const loadedFrom = library.source ? `Loaded from: ${library.source}` : undefined
+    if (!library.version) {
+      return [ruleIssue('library-detected', `${library.name} (version unknown, so it was not checked for advisories)`, {
+        evidence: loadedFrom,
+      })]
+    }
+    const advisories = findAdvisories(library.component, library.version)
+    if (advisories.length === 0) {
+      return [ruleIssue('library-detected', `${library.name} ${library.version}`, { evidence: loadedFrom })]
+    }
+    return advisories.map((advisory) => ruleIssue(
+      'vulnerable-library',
+      `${library.name} ${library.version}: ${advisory.summary}${advisory.fixedIn ? ` (fixed in ${advisory.fixedIn})` : ''}`,
+      {
+        severity: advisory.severity,
+        evidence: [`Affected: ${advisory.affected}`, advisory.fixedIn && `Fixed in: ${advisory.fixedIn}`, loadedFrom]
+          .filter(Boolean)
+          .join('\n'),
+        references: advisoryReferences(advisory),
+      }
+    ))
+  })
+}
@@ -0,0 +1,17 @@
+import { getAdminToken } from '@/lib/api/admin-token'
+import { requestJson } from '@/lib/api/client'
+import type { WatchedSite, Watchlist } from './watchlist'
+
+// Browser-side calls to the /api/monitoring routes, authenticated with the
+// session's admin token; failures reject with an ApiError
+
+export const fetchWatchlist = () => requestJson<Watchlist>('/api/monitoring', { token: getAdminToken() })
+
+export const watchSite = (url: string, intervalMinutes: number) =>
+  requestJson<WatchedSite>('/api/monitoring', { method: 'POST', body: { url, intervalMinutes }, token: getAdminToken() })
+
+export const unwatchSite = (id: string) =>
+  requestJson<void>(`/api/monitoring/${id}`, { method: 'DELETE', token: getAdminToken() })
+
+export const rescanWatchedSite = (id: string) =>
+  requestJson<WatchedSite>(`/api/monitoring/${id}/scan`, { method: 'POST', token: getAdminToken() })
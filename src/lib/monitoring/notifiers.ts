@@ -0,0 +1,68 @@
+import { serverEnv } from '@/config/server'
+import { deliverEvent } from '@/lib/webhooks/deliver'
+import { webhookStore } from '@/lib/webhooks/store'
+import { sendMail, type SmtpOptions } from './smtp'
+import type { MonitorAlert } from './watchlist'
+
+/**
+ * Somewhere monitoring alerts are sent. To add a channel, implement this and
+ * return it from configuredNotifiers.
+ */
+export interface Notifier {
+  name: string
+  notify(alert: MonitorAlert): Promise<void>
+}
+
+/**
+ * Sends a `monitor.alert` event to every target on /webhooks, signed and
+ * retried like scan events. Retries can take minutes, so they carry on in
+ * the background.
+ */
+export const webhookNotifier: Notifier = {
+  name: 'webhook',
+  async notify(alert) {
+    deliverEvent({ type: 'monitor.alert', alert }).catch((error) => {
+      console.error('Failed to deliver monitoring alert webhooks:', error)
+    })
+  },
+}
+
+export function emailNotifier(options: SmtpOptions): Notifier {
+  return {
+    name: 'email',
+    notify: (alert) => sendMail(options, {
+      subject: `[SecureCheck] ${alert.message}`,
+      text: [alert.message, '', ...alert.details.map((line) => `- ${line}`), '', `Raised at ${alert.raisedAt}`].join('\n'),
+    }),
+  }
+}
+
+// Used when nothing else is configured, so alerts at least reach the server log
+export const logNotifier: Notifier = {
+  name: 'log',
+  async notify(alert) {
+    console.warn(`Monitoring alert: ${alert.message}\n${alert.details.map((line) => `  ${line}`).join('\n')}`)
+  },
+}
+
+export async function configuredNotifiers(): Promise<Notifier[]> {
+  const { smtp } = serverEnv.monitoring
+  const { targets } = await webhookStore.read()
+  const notifiers: Notifier[] = []
+  if (targets.length > 0) notifiers.push(webhookNotifier)
+  if (smtp.host && smtp.to.length > 0) notifiers.push(emailNotifier({ ...smtp, host: smtp.host }))
+  return notifiers.length > 0 ? notifiers : [logNotifier]
+}
+
+// Sends every alert through every notifier; a failing channel is logged and does not stop the others
+export async function dispatchAlerts(alerts: MonitorAlert[], notifiers?: Notifier[]) {
+  notifiers ??= await configuredNotifiers()
+  const deliveries = alerts.flatMap((alert) => notifiers.map(async (notifier) => {
+    try {
+      await notifier.notify(alert)
+    } catch (error) {
+      console.error(`Failed to send monitoring alert via ${notifier.name}:`, error)
+    }
+  }))
+  await Promise.all(deliveries)
+}
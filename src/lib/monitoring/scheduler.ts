@@ -0,0 +1,99 @@
+import { randomUUID } from 'node:crypto'
+import { serverEnv } from '@/config/server'
+import { scanOnServer } from '@/lib/server/scan'
+import { dispatchAlerts } from './notifiers'
+import { readWatchlist, updateWatchlist } from './store'
+import {
+  detectRegressions,
+  MAX_ALERTS,
+  nextScanAt,
+  recordScan,
+  type MonitorAlert,
+  type WatchedSite,
+} from './watchlist'
+
+/**
+ * Rescans one watched site, stores the new score and sends alerts for any
+ * regression. A failed scan is recorded on the site and retried at the next
+ * interval. Resolves with the updated site, or undefined if it was removed
+ * from the watchlist while the scan ran.
+ */
+export async function rescanSite(site: WatchedSite): Promise<WatchedSite | undefined> {
+  let outcome
+  try {
+    outcome = await scanOnServer(site.url)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The scan failed'
+    return updateSite(site.id, (current) => ({
+      site: { ...current, nextScanAt: nextScanAt(current.intervalMinutes, new Date()), lastError: message },
+      alerts: [],
+    }))
+  }
+
+  const alerts: MonitorAlert[] = []
+  const updated = await updateSite(site.id, (current) => {
+    const raisedAt = new Date()
+    alerts.push(...detectRegressions(current, outcome).map((draft) => ({
+      ...draft,
+      id: randomUUID(),
+      siteId: current.id,
+      url: current.url,
+      raisedAt: raisedAt.toISOString(),
+    })))
+    return { site: recordScan(current, outcome, raisedAt), alerts }
+  })
+  if (updated) await dispatchAlerts(alerts)
+  return updated
+}
+
+// Re-reads the site when saving, as it may have changed or gone while the scan ran
+function updateSite(
+  id: string,
+  change: (site: WatchedSite) => { site: WatchedSite; alerts: MonitorAlert[] }
+): Promise<WatchedSite | undefined> {
+  return updateWatchlist((watchlist) => {
+    const current = watchlist.sites.find((site) => site.id === id)
+    if (!current) return { watchlist, value: undefined }
+    const { site, alerts } = change(current)
+    return {
+      watchlist: {
+        sites: watchlist.sites.map((other) => (other.id === id ? site : other)),
+        alerts: [...[...alerts].reverse(), ...watchlist.alerts].slice(0, MAX_ALERTS),
+      },
+      value: site,
+    }
+  })
+}
+
+// Scans run one at a time so monitoring never competes with users for the backend
+export async function runDueScans(now = new Date()) {
+  const { sites } = await readWatchlist()
+  const due = sites.filter((site) => Date.parse(site.nextScanAt) <= now.getTime())
+  for (const site of due) await rescanSite(site)
+}
+
+const shared = globalThis as typeof globalThis & { __monitorScheduler?: ReturnType<typeof setInterval> }
+
+/**
+ * Starts checking for due rescans every MONITOR_TICK_SECONDS, from
+ * instrumentation.ts. Ticks that come round while scans are still running are
+ * skipped. Starting twice is a no-op.
+ */
+export function startScheduler() {
+  if (shared.__monitorScheduler) return
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      await runDueScans()
+    } catch (error) {
+      console.error('Monitoring rescan failed:', error)
+    } finally {
+      running = false
+    }
+  }
+  shared.__monitorScheduler = setInterval(tick, serverEnv.monitoring.tickSeconds * 1000)
+  shared.__monitorScheduler.unref?.()
+  void tick()
+}
@@ -0,0 +1,129 @@
+import { createConnection, type Socket } from 'node:net'
+import { hostname } from 'node:os'
+
+// Just enough SMTP to hand a plain-text message to a local relay or a test
+// inbox such as Mailpit or MailHog: no TLS, no authentication.
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  from: string
+  to: string[]
+}
+
+export interface MailMessage {
+  subject: string
+  text: string
+}
+
+export class SmtpError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+const SMTP_TIMEOUT_MS = 10000
+
+type ReadReply = (...expected: number[]) => Promise<string>
+
+// Resolves replies in order; a multi-line reply ("250-...") ends at the line with a space after the code
+function replyReader(socket: Socket): ReadReply {
+  const replies: string[] = []
+  let lines: string[] = []
+  let buffer = ''
+  let failure: Error | undefined
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | undefined
+
+  const settle = () => {
+    if (!waiting) return
+    const reply = replies.shift()
+    const { resolve, reject } = waiting
+    if (reply !== undefined) {
+      waiting = undefined
+      resolve(reply)
+    } else if (failure) {
+      waiting = undefined
+      reject(failure)
+    }
+  }
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    let end: number
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      lines.push(line)
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push(lines.join('\n'))
+        lines = []
+      }
+    }
+    settle()
+  })
+  const fail = (error: Error) => {
+    failure ??= error
+    settle()
+  }
+  socket.on('error', fail)
+  socket.on('close', () => fail(new SmtpError('The SMTP server closed the connection')))
+  socket.on('timeout', () => {
+    fail(new SmtpError('The SMTP server did not respond in time'))
+    socket.destroy()
+  })
+
+  return async (...expected) => {
+    const reply = await new Promise<string>((resolve, reject) => {
+      waiting = { resolve, reject }
+      settle()
+    })
+    if (!expected.includes(Number(reply.slice(0, 3)))) throw new SmtpError(`The SMTP server replied: ${reply}`)
+    return reply
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+
+function formatMessage({ from, to }: SmtpOptions, { subject, text }: MailMessage): string {
+  const body = text
+    .split(/\r?\n/)
+    // A line starting with "." would otherwise be read as the end of the message
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n')
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+  ].join('\r\n')
+}
+
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const socket = createConnection({ host: options.host, port: options.port })
+  socket.setEncoding('utf8')
+  socket.setTimeout(SMTP_TIMEOUT_MS)
+  const readReply = replyReader(socket)
+  const command = (line: string, ...expected: number[]) => {
+    socket.write(`${line}\r\n`)
+    return readReply(...expected)
+  }
+
+  try {
+    await readReply(220)
+    await command(`EHLO ${hostname()}`, 250)
+    await command(`MAIL FROM:<${options.from}>`, 250)
+    for (const recipient of options.to) await command(`RCPT TO:<${recipient}>`, 250, 251)
+    await command('DATA', 354)
+    await command(`${formatMessage(options, message)}\r\n.`, 250)
+    await command('QUIT', 221)
+  } finally {
+    socket.destroy()
+  }
+}
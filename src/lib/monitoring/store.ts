@@ -0,0 +1,24 @@
+import { serverEnv } from '@/config/server'
+import { JsonFileStore } from '@/lib/server/json-file-store'
+import type { Watchlist } from './watchlist'
+
+// Server-only persistence for the watchlist, in MONITOR_DATA_FILE
+
+const isWatchlist = (value: unknown): value is Watchlist =>
+  typeof value === 'object' && value !== null &&
+  Array.isArray((value as Watchlist).sites) &&
+  Array.isArray((value as Watchlist).alerts)
+
+const store = new JsonFileStore<Watchlist>(serverEnv.monitoring.dataFile, { sites: [], alerts: [] }, isWatchlist)
+
+export function readWatchlist(): Promise<Watchlist> {
+  return store.read()
+}
+
+// Applies `change` to the stored watchlist; see JsonFileStore.update
+export function updateWatchlist<T>(change: (watchlist: Watchlist) => { watchlist: Watchlist; value: T }): Promise<T> {
+  return store.update((current) => {
+    const { watchlist, value } = change(current)
+    return { next: watchlist, value }
+  })
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { CATEGORY_KEYS, type AnalysisResult, type SecurityIssue } from '@/lib/analysis/types'
+import { computeVerdict, type VerdictPolicy } from '@/lib/analysis/verdict'
+import { detectRegressions, highSeverityFindings, recordScan, type WatchedSite } from './watchlist'
+
+const policy: VerdictPolicy = { safeThreshold: 80, cautionThreshold: 60, unsafeOnHighSeverity: true }
+
+const issue = (ruleId: string, severity: SecurityIssue['severity'], evidence?: string): SecurityIssue =>
+  ({ ruleId, message: `Finding ${ruleId}`, severity, ...(evidence ? { evidence } : {}) })
+
+function outcome(score: number, webAttacks: SecurityIssue[] = []): ScanOutcome {
+  const result = Object.fromEntries(CATEGORY_KEYS.map((key) => [key, { score, issues: [] }])) as unknown as AnalysisResult
+  const scanned = { ...result, webAttacks: { score, issues: webAttacks } }
+  return { url: 'https://example.com', scannedAt: '2026-01-01T00:00:00.000Z', result: scanned, verdict: computeVerdict(scanned, policy) }
+}
+
+const site: WatchedSite = {
+  id: 'site-1',
+  url: 'https://example.com',
+  intervalMinutes: 60,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  nextScanAt: '2026-01-01T00:00:00.000Z',
+  history: [],
+  highSeverity: [],
+}
+
+const after = (previous: ScanOutcome) => recordScan(site, previous, new Date('2026-01-01T00:00:00.000Z'))
+
+describe('detectRegressions', () => {
+  it('treats the first scan as the baseline', () => {
+    expect(detectRegressions(site, outcome(10, [issue('xss', 'high')]))).toEqual([])
+  })
+
+  it('alerts when the verdict gets worse, but not when it improves', () => {
+    const [alert] = detectRegressions(after(outcome(90)), outcome(70))
+    expect(alert).toEqual({
+      kind: 'verdict-downgrade',
+      message: 'Verdict for https://example.com went from safe to caution',
+      details: ['Score 90 → 70'],
+    })
+    expect(detectRegressions(after(outcome(70)), outcome(90))).toEqual([])
+  })
+
+  it('alerts only on high severity findings the previous scan did not have', () => {
+    const watched = after(outcome(50, [issue('xss', 'high', '<script>')]))
+    const alerts = detectRegressions(watched, outcome(50, [
+      issue('xss', 'high', '<script>'),
+      issue('sqli', 'high'),
+      issue('clickjacking', 'medium'),
+    ]))
+    expect(alerts).toEqual([{
+      kind: 'new-high-severity',
+      message: '1 new high severity issue on https://example.com',
+      details: ['Web Attacks: Finding sqli'],
+    }])
+  })
+})
+
+describe('highSeverityFindings', () => {
+  it('keys findings by category and issue key, which stays the same across scans', () => {
+    const [finding] = highSeverityFindings(outcome(50, [issue('xss', 'high', '<script>')]))
+    expect(finding.key).toBe('webAttacks/xss:<script>')
+  })
+})
@@ -0,0 +1,122 @@
+import { issueKey } from '@/lib/analysis/diff'
+import { formatTitle } from '@/lib/analysis/format'
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { categoryEntries } from '@/lib/analysis/types'
+import { SAFETY_STATUSES, type SafetyStatus } from '@/lib/analysis/verdict'
+
+// Shapes shared by the monitoring routes, the scheduler and the /monitoring page
+
+export interface ScorePoint {
+  scannedAt: string
+  score: number
+  status: SafetyStatus
+}
+
+export interface HighSeverityFinding {
+  // Category plus issueKey, stable across scans
+  key: string
+  message: string
+}
+
+export interface WatchedSite {
+  id: string
+  url: string
+  intervalMinutes: number
+  createdAt: string
+  nextScanAt: string
+  // Oldest first, capped at MAX_HISTORY
+  history: ScorePoint[]
+  // High severity findings of the latest successful scan, to spot new ones
+  highSeverity: HighSeverityFinding[]
+  // Set when the latest rescan failed, cleared by the next successful one
+  lastError?: string
+}
+
+export type AlertKind = 'verdict-downgrade' | 'new-high-severity'
+
+export interface MonitorAlert {
+  id: string
+  siteId: string
+  url: string
+  kind: AlertKind
+  raisedAt: string
+  message: string
+  // One line per new finding, or the scores before and after
+  details: string[]
+}
+
+export interface Watchlist {
+  sites: WatchedSite[]
+  // Newest first, capped at MAX_ALERTS
+  alerts: MonitorAlert[]
+}
+
+export const MAX_HISTORY = 200
+export const MAX_ALERTS = 100
+
+// Rescan intervals offered by the UI; the API accepts anything in between
+export const INTERVAL_OPTIONS = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Daily' },
+  { minutes: 10080, label: 'Weekly' },
+]
+export const MIN_INTERVAL_MINUTES = 15
+export const MAX_INTERVAL_MINUTES = 10080
+export const DEFAULT_INTERVAL_MINUTES = 1440
+
+export function highSeverityFindings(outcome: ScanOutcome): HighSeverityFinding[] {
+  return categoryEntries(outcome.result).flatMap(([key, category]) => category.issues
+    .filter((issue) => issue.severity === 'high')
+    .map((issue) => ({ key: `${key}/${issueKey(issue)}`, message: `${formatTitle(key)}: ${issue.message}` })))
+}
+
+export type AlertDraft = Pick<MonitorAlert, 'kind' | 'message' | 'details'>
+
+/**
+ * Compares a rescan with the site's previous successful scan. Raises an alert
+ * when the verdict got worse (safe to caution, caution to unsafe, ...) and one
+ * for high severity findings the previous scan did not have. The first scan
+ * of a site is its baseline and never alerts.
+ */
+export function detectRegressions(site: WatchedSite, outcome: ScanOutcome): AlertDraft[] {
+  const previous = site.history.at(-1)
+  if (!previous) return []
+
+  const alerts: AlertDraft[] = []
+  const { status, score } = outcome.verdict
+  if (SAFETY_STATUSES.indexOf(status) > SAFETY_STATUSES.indexOf(previous.status)) {
+    alerts.push({
+      kind: 'verdict-downgrade',
+      message: `Verdict for ${site.url} went from ${previous.status} to ${status}`,
+      details: [`Score ${previous.score} → ${score}`],
+    })
+  }
+
+  const known = new Set(site.highSeverity.map((finding) => finding.key))
+  const added = highSeverityFindings(outcome).filter((finding) => !known.has(finding.key))
+  if (added.length > 0) {
+    alerts.push({
+      kind: 'new-high-severity',
+      message: `${added.length} new high severity ${added.length === 1 ? 'issue' : 'issues'} on ${site.url}`,
+      details: added.map((finding) => finding.message),
+    })
+  }
+  return alerts
+}
+
+// The site after a successful rescan; alerts must be detected before this
+export function recordScan(site: WatchedSite, outcome: ScanOutcome, now: Date): WatchedSite {
+  const point: ScorePoint = { scannedAt: outcome.scannedAt, score: outcome.verdict.score, status: outcome.verdict.status }
+  return {
+    ...site,
+    nextScanAt: nextScanAt(site.intervalMinutes, now),
+    history: [...site.history, point].slice(-MAX_HISTORY),
+    highSeverity: highSeverityFindings(outcome),
+    lastError: undefined,
+  }
+}
+
+export const nextScanAt = (intervalMinutes: number, now: Date) =>
+  new Date(now.getTime() + intervalMinutes * 60_000).toISOString()
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { analyzePastedContent } from './analyze'
+
+// The HTML checks need DOMParser, which only the browser has, so these cover pasted headers
+
+const ruleIds = (issues: { ruleId?: string }[]) => issues.map((issue) => issue.ruleId)
+
+describe('analyzePastedContent', () => {
+  it('grades pasted headers and reports the expected ones that are missing', () => {
+    const { ssl } = analyzePastedContent({
+      headers: 'HTTP/2 200\nStrict-Transport-Security: max-age=63072000; includeSubDomains\nX-Frame-Options: DENY',
+    })
+    expect(ssl.error).toBeUndefined()
+    expect(ruleIds(ssl.issues)).toEqual(expect.arrayContaining(['csp-missing', 'xcto-missing', 'header-present']))
+    expect(ruleIds(ssl.issues)).not.toContain('hsts-missing')
+    expect(ssl.score).toBeLessThan(100)
+  })
+
+  it('matches header names case-insensitively', () => {
+    const { ssl } = analyzePastedContent({ headers: 'x-content-type-options: nosniff' })
+    expect(ruleIds(ssl.issues)).not.toContain('xcto-missing')
+  })
+
+  it('marks what the pasted content cannot answer as unavailable', () => {
+    const result = analyzePastedContent({ headers: 'X-Frame-Options: DENY' })
+    expect(result.contentSecurity.error).toBe('No HTML source was pasted')
+    expect(result.libraries.error).toBe('No HTML source was pasted')
+    expect(result.phishing.error).toMatch(/online scanner/)
+    expect(result.urlHeuristics).toBeUndefined()
+  })
+
+  it('marks the header checks unavailable when no headers were pasted', () => {
+    const result = analyzePastedContent({ url: 'https://example.com' })
+    expect(result.ssl.error).toBe('No response headers were pasted')
+    expect(result.urlHeuristics).toEqual({ score: 100, issues: [] })
+  })
+})
@@ -0,0 +1,165 @@
+import { analyzeSecurityHeaders, parseCsp, scriptDirectiveOf } from '@/lib/analysis/headers'
+import { ruleIssue } from '@/lib/analysis/rules'
+import { scoreCategory } from '@/lib/analysis/scoring'
+import type { AnalysisResult, CategoryResult, SecurityIssue } from '@/lib/analysis/types'
+import { detectLibrary, type DetectedLibrary } from '@/lib/libraries/detect'
+import { analyzeLibraries } from '@/lib/libraries/vulnerabilities'
+import { preflightUrl } from '@/lib/url/heuristics'
+import { parseRawHeaders } from './headers'
+import { extractPageFacts, type PageFacts } from './html'
+
+export interface PastedContent {
+  // Raw response headers, one per line
+  headers?: string
+  // The page's HTML source
+  html?: string
+  // Where the content came from; resolves relative URLs and enables the URL heuristics
+  url?: string
+}
+
+// Headers the backend grades on every scan; absent ones are reported as missing
+const EXPECTED_HEADERS = [
+  'Content-Security-Policy',
+  'Strict-Transport-Security',
+  'X-Frame-Options',
+  'X-Content-Type-Options',
+  'Referrer-Policy',
+  'Permissions-Policy',
+  'Cross-Origin-Opener-Policy',
+]
+
+// Graded when sent, but not something every site needs
+const OPTIONAL_HEADERS = ['Cross-Origin-Embedder-Policy', 'Cross-Origin-Resource-Policy']
+
+// How many offending items an aggregated finding quotes as evidence
+const MAX_EVIDENCE = 5
+
+const evidenceList = (items: string[]) =>
+  items.slice(0, MAX_EVIDENCE).join('\n') + (items.length > MAX_EVIDENCE ? `\n...and ${items.length - MAX_EVIDENCE} more` : '')
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+const category = (issues: SecurityIssue[]): CategoryResult => ({ score: scoreCategory(issues), issues })
+
+const unavailable = (error: string): CategoryResult => ({ score: 0, issues: [], error })
+
+const headerValue = (reported: Record<string, string>, name: string) =>
+  Object.entries(reported).find(([reportedName]) => reportedName.toLowerCase() === name.toLowerCase())?.[1]
+
+function headerIssues(reported: Record<string, string>, metaCsp?: string): SecurityIssue[] {
+  const graded: Record<string, string> = {}
+  for (const name of EXPECTED_HEADERS) {
+    // A <meta> policy applies when the response sends none
+    const fallback = name === 'Content-Security-Policy' && metaCsp ? metaCsp : 'Missing'
+    graded[name] = headerValue(reported, name) ?? fallback
+  }
+  for (const name of OPTIONAL_HEADERS) {
+    const value = headerValue(reported, name)
+    if (value !== undefined) graded[name] = value
+  }
+  return analyzeSecurityHeaders(graded)
+}
+
+function inlineScriptIssues(facts: PageFacts, csp?: string): SecurityIssue[] {
+  const policy = csp ? parseCsp(csp) : null
+  const directive = policy && scriptDirectiveOf(policy)
+  const sources = (directive && policy?.get(directive)) || []
+  const lowered = sources.map((source) => source.toLowerCase())
+  const nonces = new Set(sources.flatMap((source) => /^'nonce-(.+)'$/i.exec(source)?.[1] ?? []))
+  const hasHashes = lowered.some((source) => /^'sha(256|384|512)-/.test(source))
+  // A nonce or hash makes browsers ignore 'unsafe-inline'
+  const allowsInline = !directive || (lowered.includes("'unsafe-inline'") && nonces.size === 0 && !hasHashes)
+
+  const issues: SecurityIssue[] = []
+  if (allowsInline) {
+    if (facts.inlineScripts.length > 0) {
+      issues.push(ruleIssue('inline-script-unrestricted',
+        `${plural(facts.inlineScripts.length, 'inline script')} would run ${csp ? 'despite the Content Security Policy' : 'with no Content Security Policy'}`,
+        { evidence: evidenceList(facts.inlineScripts.map((script) => script.snippet)) }))
+    }
+    if (facts.inlineHandlers.length > 0) {
+      issues.push(ruleIssue('inline-handler', `${plural(facts.inlineHandlers.length, 'inline event handler')} in the page`, {
+        evidence: evidenceList(facts.inlineHandlers),
+      }))
+    }
+    return issues
+  }
+
+  // Hashes cannot be checked here without hashing each script, so only nonces are
+  const blocked = hasHashes ? [] : facts.inlineScripts.filter((script) => !script.nonce || !nonces.has(script.nonce))
+  if (blocked.length > 0) {
+    issues.push(ruleIssue('inline-script-blocked', `${plural(blocked.length, 'inline script')} will be blocked by the Content Security Policy`, {
+      evidence: evidenceList(blocked.map((script) => script.snippet)),
+    }))
+  }
+  if (facts.inlineHandlers.length > 0 && !lowered.includes("'unsafe-hashes'")) {
+    issues.push(ruleIssue('inline-script-blocked', `${plural(facts.inlineHandlers.length, 'inline event handler')} will be blocked by the Content Security Policy`, {
+      evidence: evidenceList(facts.inlineHandlers),
+    }))
+  }
+  return issues
+}
+
+function mixedContentIssues(facts: PageFacts, pageIsHttps: boolean): SecurityIssue[] {
+  if (!pageIsHttps) return []
+  const insecure = facts.subresources.filter((resource) => /^http:/i.test(resource.url))
+  return [true, false].flatMap((active) => {
+    const matching = insecure.filter((resource) => resource.active === active)
+    if (matching.length === 0) return []
+    return [ruleIssue(active ? 'mixed-content-active' : 'mixed-content-passive',
+      `${plural(matching.length, active ? 'script, stylesheet or frame' : 'image or media file')} loaded over HTTP`,
+      { evidence: evidenceList(matching.map((resource) => `<${resource.tag}> ${resource.url}`)) })]
+  })
+}
+
+function formIssues(facts: PageFacts): SecurityIssue[] {
+  return facts.forms.flatMap((form) => {
+    const issues: SecurityIssue[] = []
+    const evidence = `<form method="${form.method}" action="${form.action}">`
+    if (/^http:/i.test(form.action)) {
+      issues.push(ruleIssue('form-insecure-action', `A form submits to ${form.action}`, { evidence }))
+    }
+    if (form.method === 'post' && !form.hasCsrfToken) {
+      issues.push(ruleIssue('form-no-csrf-token', `A POST form${form.action ? ` to ${form.action}` : ''} has no CSRF token`, { evidence }))
+    }
+    return issues
+  })
+}
+
+function libraryIssues(facts: PageFacts): SecurityIssue[] {
+  return analyzeLibraries(facts.scriptSources
+    .map(detectLibrary)
+    .filter((library): library is DetectedLibrary => library !== null))
+}
+
+const NEEDS_SCANNER = 'Not checked offline: this needs the online scanner'
+
+/**
+ * Runs the checks that need nothing but the pasted response headers and HTML
+ * source, for sites the backend scanner cannot reach. Categories the content
+ * cannot answer, and those whose input was not pasted, are marked unavailable.
+ * Uses DOMParser, so it only runs in the browser.
+ */
+export function analyzePastedContent({ headers, html, url }: PastedContent): AnalysisResult {
+  const preflight = url?.trim() ? preflightUrl(url) : null
+  const facts = html?.trim() ? extractPageFacts(html, preflight?.url) : null
+  const reported = headers?.trim() ? parseRawHeaders(headers) : null
+  const csp = (reported && headerValue(reported, 'Content-Security-Policy')) ?? facts?.metaCsp
+  // Without an address, assume the page is served over HTTPS as it should be
+  const pageIsHttps = !preflight || preflight.url.startsWith('https:')
+
+  const fromHtml = (check: (facts: PageFacts) => SecurityIssue[]) =>
+    facts ? category(check(facts)) : unavailable('No HTML source was pasted')
+
+  return {
+    ...(preflight ? { urlHeuristics: category(preflight.issues) } : {}),
+    ssl: reported ? category(headerIssues(reported, facts?.metaCsp)) : unavailable('No response headers were pasted'),
+    contentSecurity: fromHtml((page) => [...inlineScriptIssues(page, csp), ...mixedContentIssues(page, pageIsHttps)]),
+    vulnerabilities: unavailable(NEEDS_SCANNER),
+    phishing: unavailable(NEEDS_SCANNER),
+    malware: unavailable(NEEDS_SCANNER),
+    webAttacks: fromHtml(formIssues),
+    certificateTransparency: unavailable(NEEDS_SCANNER),
+    libraries: fromHtml(libraryIssues),
+  }
+}
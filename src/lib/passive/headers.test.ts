@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { parseRawHeaders } from './headers'
+
+describe('parseRawHeaders', () => {
+  it('skips status lines and anything that is not a header', () => {
+    const text = 'HTTP/2 200\r\ncontent-type: text/html\r\n\r\n<!doctype html>\r\nx-frame-options:DENY'
+    expect(parseRawHeaders(text)).toEqual({ 'content-type': 'text/html', 'x-frame-options': 'DENY' })
+  })
+
+  it('joins folded continuation lines', () => {
+    const text = "Content-Security-Policy: default-src 'self';\n  script-src 'self'"
+    expect(parseRawHeaders(text)).toEqual({ 'Content-Security-Policy': "default-src 'self'; script-src 'self'" })
+  })
+
+  it('combines repeated headers under the first spelling of the name', () => {
+    const text = 'Cache-Control: no-store\ncache-control: private'
+    expect(parseRawHeaders(text)).toEqual({ 'Cache-Control': 'no-store, private' })
+  })
+
+  it('reads an indented line as a header of its own when there is nothing to fold it into', () => {
+    expect(parseRawHeaders('HTTP/1.1 301 Moved\n  Location: /')).toEqual({ Location: '/' })
+  })
+})
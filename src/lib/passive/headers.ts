@@ -0,0 +1,31 @@
+// Raw response headers as copied from curl -i, browser devtools or a proxy log
+
+/**
+ * Parses pasted response headers into a name to value map. Status lines and
+ * anything that is not a header are skipped, folded continuation lines are
+ * joined, and repeated headers are combined the way HTTP does, with ", ".
+ */
+export function parseRawHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  const names = new Map<string, string>()
+  let last: string | undefined
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && last) {
+      headers[last] = `${headers[last]} ${line.trim()}`
+      continue
+    }
+    const match = /^([!#$%&'*+.^_`|~\w-]+)\s*:\s*(.*)$/.exec(line.trim())
+    if (!match || /^HTTP\//i.test(line)) {
+      last = undefined
+      continue
+    }
+    const [, rawName, value] = match
+    // Keep the spelling of the first occurrence; header names are case-insensitive
+    const name = names.get(rawName.toLowerCase()) ?? rawName
+    names.set(rawName.toLowerCase(), name)
+    headers[name] = headers[name] === undefined ? value.trim() : `${headers[name]}, ${value.trim()}`
+    last = name
+  }
+  return headers
+}
@@ -0,0 +1,128 @@
+// What the offline checks need from a page's HTML source. Parsing uses the
+// browser's DOMParser: the resulting document is inert, so nothing in the
+// pasted source runs or loads while it is inspected.
+
+export interface InlineScript {
+  nonce?: string
+  // The start of the script, for evidence
+  snippet: string
+}
+
+export interface PageForm {
+  // Absolute when a base URL is known, otherwise as written
+  action: string
+  method: string
+  hasCsrfToken: boolean
+}
+
+export interface Subresource {
+  tag: string
+  url: string
+  // Scripts, stylesheets and frames can change the page; images and media cannot
+  active: boolean
+}
+
+export interface PageFacts {
+  // From <meta http-equiv="Content-Security-Policy">
+  metaCsp?: string
+  inlineScripts: InlineScript[]
+  // e.g. `<button onclick>` or `<a href="javascript:">`
+  inlineHandlers: string[]
+  forms: PageForm[]
+  subresources: Subresource[]
+  // Every <script src>, resolved like subresources
+  scriptSources: string[]
+}
+
+const SCRIPT_TYPES = /^(|module|(text|application)\/(java|ecma)script)$/i
+
+// Hidden fields frameworks use for anti-CSRF tokens, e.g. "csrf_token",
+// "authenticity_token" (Rails) and "__RequestVerificationToken" (ASP.NET)
+const CSRF_FIELD = /csrf|xsrf|token|authenticity|verification|nonce/i
+
+const SUBRESOURCES: { selector: string; attribute: string; active: boolean }[] = [
+  { selector: 'script[src]', attribute: 'src', active: true },
+  { selector: 'link[rel~="stylesheet" i][href]', attribute: 'href', active: true },
+  { selector: 'iframe[src]', attribute: 'src', active: true },
+  { selector: 'object[data]', attribute: 'data', active: true },
+  { selector: 'embed[src]', attribute: 'src', active: true },
+  { selector: 'img[src]', attribute: 'src', active: false },
+  { selector: 'audio[src], video[src], source[src]', attribute: 'src', active: false },
+]
+
+const MAX_SNIPPET = 80
+
+const snippetOf = (text: string) => {
+  const collapsed = text.replace(/\s+/g, ' ').trim()
+  return collapsed.length > MAX_SNIPPET ? `${collapsed.slice(0, MAX_SNIPPET)}...` : collapsed
+}
+
+/**
+ * Extracts scripts, forms and subresources from HTML source. `baseUrl`, the
+ * address the page was served from, resolves relative URLs; a <base href> in
+ * the page takes precedence, as it does in browsers.
+ */
+export function extractPageFacts(html: string, baseUrl?: string): PageFacts {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+
+  const base = (() => {
+    const href = doc.querySelector('base[href]')?.getAttribute('href')
+    try {
+      return href ? new URL(href, baseUrl).href : baseUrl
+    } catch {
+      return baseUrl
+    }
+  })()
+  const resolve = (value: string) => {
+    try {
+      return new URL(value.trim(), base).href
+    } catch {
+      return value.trim()
+    }
+  }
+
+  const inlineScripts = [...doc.querySelectorAll('script:not([src])')]
+    .filter((script) => SCRIPT_TYPES.test(script.getAttribute('type')?.trim() ?? '') && script.textContent?.trim())
+    .map((script) => {
+      const nonce = script.getAttribute('nonce')
+      return { snippet: snippetOf(script.textContent ?? ''), ...(nonce ? { nonce } : {}) }
+    })
+
+  const inlineHandlers: string[] = []
+  for (const element of doc.querySelectorAll('*')) {
+    const tag = element.tagName.toLowerCase()
+    for (const { name, value } of element.attributes) {
+      if (name.startsWith('on')) inlineHandlers.push(`<${tag} ${name}>`)
+      else if ((name === 'href' || name === 'action') && /^\s*javascript:/i.test(value)) inlineHandlers.push(`<${tag} ${name}="javascript:">`)
+    }
+  }
+
+  const forms = [...doc.querySelectorAll('form')].map((form) => ({
+    // A form without an action submits to the page itself
+    action: form.getAttribute('action') ? resolve(form.getAttribute('action') ?? '') : base ?? '',
+    method: (form.getAttribute('method') ?? 'get').toLowerCase(),
+    hasCsrfToken: [...form.querySelectorAll('input[type="hidden" i]')]
+      .some((input) => CSRF_FIELD.test(input.getAttribute('name') ?? '')),
+  }))
+
+  const subresources = SUBRESOURCES.flatMap(({ selector, attribute, active }) =>
+    [...doc.querySelectorAll(selector)].map((element) => ({
+      tag: element.tagName.toLowerCase(),
+      url: resolve(element.getAttribute(attribute) ?? ''),
+      active,
+    }))
+  )
+
+  const metaCsp = [...doc.querySelectorAll('meta[http-equiv]')]
+    .find((meta) => meta.getAttribute('http-equiv')?.toLowerCase() === 'content-security-policy')
+    ?.getAttribute('content') ?? undefined
+
+  return {
+    ...(metaCsp ? { metaCsp } : {}),
+    inlineScripts,
+    inlineHandlers,
+    forms,
+    subresources,
+    scriptSources: subresources.filter((resource) => resource.tag === 'script').map((resource) => resource.url),
+  }
+}
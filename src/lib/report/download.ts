@@ -0,0 +1,33 @@
+export function downloadText(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Opens an HTML document in a new window and brings up the print dialog,
+ * where the user can pick "Save as PDF".
+ */
+export function printHtml(html: string): boolean {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) return false
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+
+  let printed = false
+  const print = () => {
+    if (printed) return
+    printed = true
+    printWindow.print()
+  }
+  printWindow.onload = print
+  // Some browsers never fire onload for document.write content
+  setTimeout(print, 250)
+  return true
+}
@@ -0,0 +1,168 @@
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { formatTitle } from '@/lib/analysis/format'
+import { referenceLabel } from '@/lib/analysis/rules'
+import { categoryEntries, SEVERITIES, type CategoryKey, type SecurityIssue, type Severity } from '@/lib/analysis/types'
+import type { SafetyStatus } from '@/lib/analysis/verdict'
+
+export const REPORT_VERSION = 1
+
+// Stable, machine-readable shape shared by every export format
+export interface ScanReport {
+  version: typeof REPORT_VERSION
+  url: string
+  scannedAt: string
+  verdict: {
+    status: SafetyStatus
+    title: string
+    description: string
+  }
+  overallScore: number
+  categories: {
+    key: CategoryKey
+    title: string
+    score: number | null
+    error?: string
+    issues: SecurityIssue[]
+  }[]
+}
+
+const bySeverity = (a: SecurityIssue, b: SecurityIssue) =>
+  SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+
+export function buildReport({ url, scannedAt, result, verdict }: ScanOutcome): ScanReport {
+  return {
+    version: REPORT_VERSION,
+    url,
+    scannedAt,
+    verdict: {
+      status: verdict.status,
+      title: verdict.title,
+      description: verdict.description,
+    },
+    overallScore: verdict.score,
+    categories: categoryEntries(result).map(([key, category]) => ({
+      key,
+      title: formatTitle(key),
+      score: category.error ? null : category.score,
+      ...(category.error ? { error: category.error } : {}),
+      issues: [...category.issues].sort(bySeverity),
+    })),
+  }
+}
+
+export function toJsonReport(scan: ScanOutcome): string {
+  return JSON.stringify(buildReport(scan), null, 2)
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]|<>])/g, '\\$1')
+
+// Rule ID and references, e.g. " (csp-unsafe-inline; CWE-79, OWASP A05:2021 ...)"
+const issueSuffix = (issue: SecurityIssue) => {
+  const parts = [issue.ruleId, (issue.references ?? []).map(referenceLabel).join(', ')].filter(Boolean)
+  return parts.length > 0 ? ` (${parts.join('; ')})` : ''
+}
+
+export function toMarkdownReport(scan: ScanOutcome): string {
+  const report = buildReport(scan)
+  const lines = [
+    `# Security report for ${escapeMarkdown(report.url)}`,
+    '',
+    `- **Scanned:** ${new Date(report.scannedAt).toUTCString()}`,
+    `- **Verdict:** ${report.verdict.status.toUpperCase()} (${report.verdict.title})`,
+    `- **Overall score:** ${report.overallScore}/100`,
+    '',
+    '| Category | Score | High | Medium | Low | Info |',
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+    ...report.categories.map((category) => {
+      const count = (severity: Severity) => category.issues.filter((issue) => issue.severity === severity).length
+      return `| ${category.title} | ${category.score ?? 'n/a'} | ${count('high')} | ${count('medium')} | ${count('low')} | ${count('info')} |`
+    }),
+  ]
+
+  for (const category of report.categories) {
+    lines.push('', `## ${category.title}`, '')
+    if (category.error) {
+      lines.push(`_Data unavailable: ${escapeMarkdown(category.error)}_`)
+    } else if (category.issues.length === 0) {
+      lines.push('No issues found.')
+    } else {
+      lines.push(...category.issues.map((issue) => `- **${issue.severity}**: ${escapeMarkdown(issue.message + issueSuffix(issue))}`))
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  high: '#dc2626',
+  medium: '#ca8a04',
+  low: '#ea580c',
+  info: '#2563eb',
+}
+
+/**
+ * A standalone, print-optimized HTML document. Printing it from the browser
+ * ("Save as PDF") is how we produce PDF reports without a PDF library.
+ */
+export function toHtmlReport(scan: ScanOutcome): string {
+  const report = buildReport(scan)
+  const categories = report.categories.map((category) => `
+    <section>
+      <h2>${escapeHtml(category.title)} <span class="score">${category.score ?? 'n/a'}/100</span></h2>
+      ${category.error
+        ? `<p class="muted">Data unavailable: ${escapeHtml(category.error)}</p>`
+        : category.issues.length === 0
+          ? '<p class="muted">No issues found.</p>'
+          : `<ul>${category.issues.map((issue) => `
+        <li><strong style="color: ${SEVERITY_COLORS[issue.severity]}">${issue.severity}</strong> ${escapeHtml(issue.message)}<span class="muted">${escapeHtml(issueSuffix(issue))}</span></li>`).join('')}
+      </ul>`}
+    </section>`).join('')
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Security report: ${escapeHtml(report.url)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; line-height: 1.4; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; word-break: break-all; }
+    h2 { font-size: 1.1rem; border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }
+    .score { float: right; font-weight: normal; }
+    .muted { color: #666; }
+    .verdict { padding: 0.75rem 1rem; border: 1px solid #ddd; border-radius: 0.5rem; margin: 1rem 0; }
+    .safe { border-color: #16a34a; } .caution { border-color: #ca8a04; } .unsafe { border-color: #dc2626; }
+    section { break-inside: avoid; margin-top: 1.5rem; }
+    ul { padding-left: 1.25rem; }
+    @page { margin: 1.5cm; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Security report for ${escapeHtml(report.url)}</h1>
+  <p class="muted">Scanned ${escapeHtml(new Date(report.scannedAt).toUTCString())}</p>
+  <div class="verdict ${report.verdict.status}">
+    <strong>${escapeHtml(report.verdict.title)}</strong> &middot; Overall score ${report.overallScore}/100
+    <div>${escapeHtml(report.verdict.description)}</div>
+  </div>${categories}
+</body>
+</html>
+`
+}
+
+export function reportFilename(scan: ScanOutcome, extension: string): string {
+  const host = (() => {
+    try {
+      return new URL(scan.url).hostname
+    } catch {
+      return scan.url.replace(/[^\w.-]+/g, '_')
+    }
+  })()
+  return `securecheck-${host}-${scan.scannedAt.slice(0, 10)}.${extension}`
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { TLS_FIXTURES } from '@/fixtures/tls'
+import { validateCheckWebsiteResponse } from '@/lib/api/check-website'
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { toTlsDetails } from '@/lib/analysis/tls'
+import { toAnalysisResult } from '@/lib/analysis/transform'
+import { computeVerdict } from '@/lib/analysis/verdict'
+import { decodeSnapshot, encodeSnapshot } from './permalink'
+
+const { url, response } = TLS_FIXTURES.modern
+const validated = validateCheckWebsiteResponse(response)
+const result = toAnalysisResult(validated, [])
+const scan: ScanOutcome = {
+  url,
+  scannedAt: '2026-01-01T00:00:00.000Z',
+  result,
+  verdict: computeVerdict(result),
+  tls: toTlsDetails(validated.sections),
+}
+
+// A plain (uncompressed) snapshot of an arbitrary payload
+const plainSnapshot = (payload: unknown) =>
+  'j' + Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+describe('report snapshots', () => {
+  it('round-trips the result, verdict and TLS details', async () => {
+    expect(scan.tls).toBeDefined()
+    expect(await decodeSnapshot(await encodeSnapshot(scan))).toEqual(scan)
+  })
+
+  it("keeps the sender's verdict rather than judging again", async () => {
+    const verdict = { ...scan.verdict, status: 'caution' as const, title: 'Exercise Caution' }
+    const decoded = await decodeSnapshot(await encodeSnapshot({ ...scan, verdict }))
+    expect(decoded?.verdict).toEqual(verdict)
+  })
+
+  it('rejects a malformed verdict or TLS section', async () => {
+    const { url, scannedAt, result, verdict, tls } = scan
+    expect(await decodeSnapshot(plainSnapshot({ url, scannedAt, result, verdict: { ...verdict, status: 'fine' }, tls }))).toBeNull()
+    expect(await decodeSnapshot(plainSnapshot({ url, scannedAt, result, verdict, tls: { ...tls, chain: [] } }))).toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { parseAnalysisResult, parseTlsDetails, parseVerdict } from '@/lib/analysis/validate'
+import { computeVerdict } from '@/lib/analysis/verdict'
+
+// First character of a snapshot says how the rest is encoded
+const COMPRESSED = 'z'
+const PLAIN = 'j'
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer())
+
+/**
+ * Encodes a scan into a compact string for the fragment of a /report link.
+ * The snapshot travels in the link itself, so the recipient sees exactly the
+ * same report, judged by the sender's verdict policy, without any server-side
+ * storage.
+ */
+export async function encodeSnapshot({ url, scannedAt, result, verdict, tls }: ScanOutcome): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify({ url, scannedAt, result, verdict, tls }))
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(json)
+  return COMPRESSED + toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))
+}
+
+/**
+ * Decodes a snapshot from a shared link. Returns null for anything malformed,
+ * including a TLS section that does not have the expected shape. Nothing in a
+ * snapshot is signed, so a well-formed one is still only what the link says.
+ */
+export async function decodeSnapshot(snapshot: string): Promise<ScanOutcome | null> {
+  try {
+    const bytes = fromBase64Url(snapshot.slice(1))
+    const json = snapshot[0] === COMPRESSED
+      ? await pipeThrough(bytes, new DecompressionStream('deflate-raw'))
+      : snapshot[0] === PLAIN ? bytes : null
+    if (!json) return null
+
+    const payload: unknown = JSON.parse(new TextDecoder().decode(json))
+    if (typeof payload !== 'object' || payload === null) return null
+    const { url, scannedAt, result, verdict, tls } = payload as Record<string, unknown>
+    const parsed = parseAnalysisResult(result)
+    // Links made before the verdict was included are judged by the local policy
+    const parsedVerdict = verdict === undefined ? parsed && computeVerdict(parsed) : parseVerdict(verdict)
+    const parsedTls = tls === undefined ? undefined : parseTlsDetails(tls)
+    if (
+      typeof url !== 'string' || typeof scannedAt !== 'string' || Number.isNaN(Date.parse(scannedAt)) ||
+      !parsed || !parsedVerdict || parsedTls === null
+    ) {
+      return null
+    }
+    return { url, scannedAt, result: parsed, verdict: parsedVerdict, ...(parsedTls ? { tls: parsedTls } : {}) }
+  } catch {
+    return null
+  }
+}
+
+export async function reportPermalink(scan: ScanOutcome): Promise<string> {
+  return `${window.location.origin}/report#${await encodeSnapshot(scan)}`
+}
@@ -0,0 +1,109 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HTMLCanvasElementLuminanceSource,
+  HybridBinarizer,
+  MultiFormatReader,
+} from '@zxing/library'
+
+const FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.DATA_MATRIX,
+  BarcodeFormat.AZTEC,
+  BarcodeFormat.PDF_417,
+  BarcodeFormat.CODE_128,
+]
+
+let reader: MultiFormatReader | null = null
+
+const getReader = () => {
+  if (!reader) {
+    reader = new MultiFormatReader()
+    reader.setHints(new Map<DecodeHintType, unknown>([
+      [DecodeHintType.POSSIBLE_FORMATS, FORMATS],
+      [DecodeHintType.TRY_HARDER, true],
+    ]))
+  }
+  return reader
+}
+
+/**
+ * Decodes a QR code or barcode from the current contents of a canvas.
+ * Returns the decoded text, or null when no code is found in the frame.
+ */
+export function decodeCanvas(canvas: HTMLCanvasElement): string | null {
+  if (canvas.width === 0 || canvas.height === 0) return null
+  try {
+    const bitmap = new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas)))
+    return getReader().decodeWithState(bitmap).getText()
+  } catch {
+    // zxing signals "nothing here" (and unreadable codes) by throwing
+    return null
+  } finally {
+    getReader().reset()
+  }
+}
+
+/**
+ * Decodes a QR code or barcode from a still image such as an uploaded
+ * screenshot.
+ */
+export function decodeImage(image: HTMLImageElement): string | null {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+  ctx.drawImage(image, 0, 0)
+  return decodeCanvas(canvas)
+}
+
+interface ContinuousDecodeOptions {
+  intervalMs?: number
+}
+
+/**
+ * Repeatedly grabs frames from a playing video and tries to decode them.
+ * `onDecode` is called for every frame that yields a code. Returns a function
+ * that stops the loop.
+ */
+export function decodeVideoContinuously(
+  video: HTMLVideoElement,
+  onDecode: (text: string) => void,
+  { intervalMs = 250 }: ContinuousDecodeOptions = {}
+): () => void {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let stopped = false
+
+  const tick = () => {
+    if (stopped || !ctx) return
+    if (video.readyState === video.HAVE_ENOUGH_DATA && video.videoWidth > 0) {
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+      const text = decodeCanvas(canvas)
+      if (text) onDecode(text)
+    }
+    if (!stopped) timer = setTimeout(tick, intervalMs)
+  }
+
+  tick()
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+  }
+}
+
+// Decoded payloads are only useful to us when they carry a web address
+export function urlFromCode(text: string): string | null {
+  const candidate = text.trim()
+  try {
+    const parsed = new URL(candidate)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.toString() : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,48 @@
+import { createWorker, type ImageLike, type Worker } from 'tesseract.js'
+
+export interface OcrProgress {
+  status: string
+  // 0-1 progress of the current step
+  progress: number
+}
+
+type ProgressListener = (progress: OcrProgress) => void
+
+const listeners = new Set<ProgressListener>()
+let workerPromise: Promise<Worker> | null = null
+
+/**
+ * Returns the shared Tesseract worker, creating it on first use. The worker
+ * stays alive for the lifetime of the page so only the first scan pays for
+ * downloading and initializing the language data.
+ */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', undefined, {
+      logger: ({ status, progress }) => listeners.forEach((listener) => listener({ status, progress })),
+    }).catch((error) => {
+      // Allow a later attempt to retry instead of caching the failure
+      workerPromise = null
+      throw error
+    })
+  }
+  return workerPromise
+}
+
+// Starts loading the OCR engine in the background, e.g. when the scanner opens
+export function warmUpOcr(): void {
+  getWorker().catch((error) => console.error('Error loading OCR engine:', error))
+}
+
+export function subscribeOcrProgress(listener: ProgressListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export async function recognizeText(image: ImageLike): Promise<string> {
+  const worker = await getWorker()
+  const { data: { text } } = await worker.recognize(image)
+  return text
+}
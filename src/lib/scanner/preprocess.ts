@@ -0,0 +1,90 @@
+export interface Region {
+  // All values are fractions (0-1) of the source dimensions
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// The "Align URL here" guide in the camera view, with some margin for shaky hands
+export const URL_GUIDE_REGION: Region = { x: 0.1, y: 0.3, width: 0.8, height: 0.4 }
+
+// Tesseract reads best when glyphs are roughly 30px tall
+const TARGET_WIDTH = 1800
+const MAX_UPSCALE = 3
+
+/**
+ * Otsu's method: picks the grey level that best separates the histogram into
+ * foreground and background.
+ */
+function otsuThreshold(histogram: number[], total: number): number {
+  let sum = 0
+  for (let i = 0; i < 256; i++) sum += i * histogram[i]
+
+  let sumBackground = 0
+  let weightBackground = 0
+  let bestThreshold = 127
+  let bestVariance = 0
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i]
+    if (weightBackground === 0) continue
+    const weightForeground = total - weightBackground
+    if (weightForeground === 0) break
+
+    sumBackground += i * histogram[i]
+    const meanBackground = sumBackground / weightBackground
+    const meanForeground = (sum - sumBackground) / weightForeground
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = i
+    }
+  }
+  return bestThreshold
+}
+
+/**
+ * Prepares an image for OCR: optionally crops to a region, upscales small
+ * crops, converts to grayscale and binarizes. Text is always rendered dark on
+ * light, which is what Tesseract expects.
+ */
+export function preprocessForOcr(image: HTMLImageElement, region?: Region): HTMLCanvasElement {
+  const sourceX = region ? Math.round(region.x * image.naturalWidth) : 0
+  const sourceY = region ? Math.round(region.y * image.naturalHeight) : 0
+  const sourceWidth = region ? Math.round(region.width * image.naturalWidth) : image.naturalWidth
+  const sourceHeight = region ? Math.round(region.height * image.naturalHeight) : image.naturalHeight
+
+  const scale = Math.min(MAX_UPSCALE, Math.max(1, TARGET_WIDTH / sourceWidth))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(sourceWidth * scale)
+  canvas.height = Math.round(sourceHeight * scale)
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return canvas
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height)
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const pixels = imageData.data
+  const histogram = new Array<number>(256).fill(0)
+  for (let i = 0; i < pixels.length; i += 4) {
+    const grey = Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])
+    pixels[i] = grey
+    histogram[grey]++
+  }
+
+  const threshold = otsuThreshold(histogram, pixels.length / 4)
+  // More dark than light pixels means light text on a dark background
+  const darkPixels = histogram.slice(0, threshold + 1).reduce((acc, count) => acc + count, 0)
+  const invert = darkPixels > pixels.length / 8
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const isDark = pixels[i] <= threshold
+    const value = isDark !== invert ? 0 : 255
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = value
+    pixels[i + 3] = 255
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return canvas
+}
@@ -0,0 +1,63 @@
+// A bundled subset of the Public Suffix List (https://publicsuffix.org/) that
+// covers the suffixes we realistically see on printed material. Multi-label
+// suffixes are listed explicitly so "example.co.uk" resolves to "co.uk".
+
+const GENERIC = [
+  'com', 'org', 'net', 'edu', 'gov', 'mil', 'int', 'info', 'biz', 'name', 'pro',
+  'app', 'dev', 'io', 'ai', 'co', 'me', 'tv', 'cc', 'ly', 'gg', 'sh', 'to', 'fm',
+  'xyz', 'online', 'site', 'store', 'shop', 'tech', 'cloud', 'live', 'link',
+  'click', 'top', 'club', 'vip', 'win', 'bid', 'icu', 'work', 'page', 'blog',
+  'news', 'media', 'email', 'support', 'help', 'services', 'solutions', 'agency',
+  'bank', 'finance', 'money', 'pay', 'health', 'care', 'travel', 'delivery',
+  'express', 'post', 'mobi', 'asia', 'eu', 'global', 'world', 'zone', 'space',
+  'website', 'digital', 'network', 'systems', 'software', 'security',
+]
+
+const COUNTRY = [
+  'ac', 'ae', 'ar', 'at', 'au', 'be', 'bg', 'br', 'by', 'ca', 'ch', 'cl', 'cn',
+  'cz', 'de', 'dk', 'ee', 'eg', 'es', 'fi', 'fr', 'gr', 'hk', 'hr', 'hu', 'id',
+  'ie', 'il', 'in', 'ir', 'is', 'it', 'jp', 'ke', 'kr', 'kz', 'lt', 'lu', 'lv',
+  'ma', 'mx', 'my', 'ng', 'nl', 'no', 'nz', 'pe', 'ph', 'pk', 'pl', 'pt', 'ro',
+  'rs', 'ru', 'sa', 'se', 'sg', 'si', 'sk', 'th', 'tr', 'tw', 'ua', 'uk', 'us',
+  'uy', 'vn', 'za',
+]
+
+const MULTI_LABEL = [
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'ltd.uk', 'plc.uk', 'me.uk', 'net.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'govt.nz',
+  'co.in', 'net.in', 'org.in', 'gov.in', 'ac.in', 'edu.in',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp',
+  'co.kr', 'or.kr',
+  'com.br', 'net.br', 'org.br', 'gov.br',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn',
+  'com.mx', 'org.mx', 'gob.mx',
+  'co.za', 'org.za', 'gov.za',
+  'com.sg', 'edu.sg', 'gov.sg',
+  'com.hk', 'org.hk',
+  'com.tw', 'org.tw',
+  'com.tr', 'org.tr',
+  'com.ar', 'com.my', 'com.ph', 'com.pk', 'com.sa', 'com.eg', 'com.ng',
+  'co.id', 'co.il', 'co.ke', 'co.th',
+  'github.io', 'gitlab.io', 'netlify.app', 'vercel.app', 'pages.dev',
+  'herokuapp.com', 'azurewebsites.net', 'cloudfront.net', 'appspot.com',
+  'blogspot.com', 'firebaseapp.com', 'web.app',
+]
+
+const SUFFIXES = new Set([...GENERIC, ...COUNTRY, ...MULTI_LABEL])
+
+// Suffixes common enough that a match is itself a good signal
+export const COMMON_SUFFIXES = new Set(['com', 'org', 'net', 'io', 'co', 'gov', 'edu', 'co.uk', 'de', 'in'])
+
+/**
+ * Returns the longest known public suffix of a hostname, or null when the
+ * hostname does not end in a known suffix or consists of the suffix alone.
+ */
+export function publicSuffixOf(hostname: string): string | null {
+  const labels = hostname.toLowerCase().split('.')
+  for (let i = 1; i < labels.length; i++) {
+    const suffix = labels.slice(i).join('.')
+    if (SUFFIXES.has(suffix)) return suffix
+  }
+  return null
+}
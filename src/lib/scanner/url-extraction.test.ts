@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { extractUrls, joinWrappedLines } from './url-extraction'
+
+const urls = (text: string) => extractUrls(text).map((candidate) => candidate.url)
+
+describe('extractUrls', () => {
+  it('finds addresses printed with and without a scheme, assuming https', () => {
+    expect(urls('Visit www.example.org today')).toEqual(['https://www.example.org/'])
+    expect(urls('Legacy: http://old.example.com/login')).toEqual(['http://old.example.com/login'])
+  })
+
+  it('repairs a mangled scheme and ranks it above bare addresses', () => {
+    const [first] = extractUrls('h t t p s ; / / secure.example.com and example.net')
+    expect(first.url).toBe('https://secure.example.com/')
+  })
+
+  it('does not read a comma followed by a space as a dot', () => {
+    expect(urls('Please keep it on hold, to release later')).toEqual([])
+    expect(urls('Thanks, in advance')).toEqual([])
+    expect(urls('Hello, me again')).toEqual([])
+  })
+
+  it('reads a comma inside a word as a dot, flagged so it is not picked automatically', () => {
+    expect(extractUrls('example,com')).toEqual([
+      expect.objectContaining({ url: 'https://example.com/', commaAsDot: true }),
+    ])
+    expect(extractUrls('example.com')[0].commaAsDot).toBeUndefined()
+  })
+
+  it('skips email addresses, including ones with a space around the @', () => {
+    expect(urls('Write to john.doe@example.com or support @ example.net')).toEqual([])
+    expect(urls('https://example.com/contact?email=a@b.co')).toEqual(['https://example.com/contact?email=a@b.co'])
+  })
+
+  it('offers the literal reading of a lookalike next to the corrected one', () => {
+    expect(urls('paypa1.com')).toEqual(expect.arrayContaining(['https://paypa1.com/', 'https://paypal.com/']))
+  })
+})
+
+describe('joinWrappedLines', () => {
+  it('joins a URL that wrapped onto the next line', () => {
+    expect(joinWrappedLines('https://example.com/a-very-\nlong-path')).toBe('https://example.com/a-very-long-path')
+    expect(joinWrappedLines('First line\nSecond line')).toBe('First line\nSecond line')
+  })
+})
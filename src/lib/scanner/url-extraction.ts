@@ -0,0 +1,190 @@
+import { COMMON_SUFFIXES, publicSuffixOf } from './public-suffixes'
+
+export interface UrlCandidate {
+  // Normalized URL, always with a scheme
+  url: string
+  // The text the candidate was read from, before any corrections
+  raw: string
+  // 0-1, higher means more likely to be what was printed
+  confidence: number
+  // A comma was read as a dot, so this may be ordinary prose; never picked without asking
+  commaAsDot?: boolean
+}
+
+// A line ending (or the next line starting) with one of these usually means
+// the URL was wrapped rather than finished
+const WRAP_END = /[./\-_?&=#%~:]$/
+const WRAP_START = /^[./\-_?&=#%~]/
+
+const TRAILING_PUNCTUATION = /[.,;:!?'"`’”)\]}>]+$/
+const LEADING_PUNCTUATION = /^[('"`‘“[{<]+/
+
+// Scheme (possibly mangled), host and optional port/path. A comma stands in for
+// a misread dot only inside a word: "Thanks, in advance" is not thanks.in
+const URL_TOKEN = /(?:h\s?t\s?t\s?p\s?s?\s?[:;]\s?\/\s?\/\s?)?(?:[\p{L}\p{N}|-]+[.,])+[\p{L}\p{N}|]{2,}(?::\d{1,5})?(?:\/[^\s]*)?/giu
+
+// Local part, "@" and domain; OCR sometimes puts a space on either side of the "@"
+const EMAIL = /[\p{L}\p{N}._%+-]+\s?@\s?(?:[\p{L}\p{N}-]+\.)+[\p{L}\p{N}]{2,}/gu
+
+/**
+ * Joins lines where the text looks like a URL that wrapped onto the next line.
+ */
+export function joinWrappedLines(text: string): string {
+  const lines = text.split(/\r?\n/).map((line) => line.trim())
+  const joined: string[] = []
+  for (const line of lines) {
+    const previous = joined[joined.length - 1]
+    if (previous && line && (WRAP_END.test(previous) || WRAP_START.test(line))) {
+      joined[joined.length - 1] = previous + line
+    } else {
+      joined.push(line)
+    }
+  }
+  return joined.join('\n')
+}
+
+interface Corrected {
+  value: string
+  corrections: number
+}
+
+// Character swaps OCR commonly makes inside words
+const LETTER_FOR_DIGIT: Record<string, string> = { '0': 'o', '1': 'l', '5': 's', '|': 'l' }
+
+/**
+ * Fixes digit/letter confusions in a hostname. Only labels that are mostly
+ * letters are touched, so genuine numbers ("web2", "365") survive, and the
+ * suffix is always forced to letters since no public suffix contains digits.
+ */
+function correctHost(host: string): Corrected {
+  let corrections = 0
+  const labels = host.split('.')
+  const fixed = labels.map((label, index) => {
+    const isSuffix = index === labels.length - 1
+    const letters = label.replace(/[^\p{L}]/gu, '').length
+    const confusable = label.replace(/[^015|]/g, '').length
+    if (confusable === 0 || (!isSuffix && letters < confusable * 2)) return label
+    return label.replace(/[015|]/g, (char) => {
+      corrections++
+      return LETTER_FOR_DIGIT[char]
+    })
+  })
+  return { value: fixed.join('.'), corrections }
+}
+
+const stripPunctuation = (token: string) => {
+  let value = token.replace(LEADING_PUNCTUATION, '')
+  // Keep a closing parenthesis only when the URL itself opened one
+  while (TRAILING_PUNCTUATION.test(value)) {
+    const last = value[value.length - 1]
+    if (last === ')' && (value.match(/\(/g) ?? []).length >= (value.match(/\)/g) ?? []).length) break
+    value = value.slice(0, -1)
+  }
+  return value
+}
+
+function toCandidates(token: string, wrapped: boolean): UrlCandidate[] {
+  const raw = stripPunctuation(token)
+  let corrections = 0
+
+  // Repair spacing and confusions in the scheme, e.g. "http; / /"
+  const schemeMatch = raw.match(/^h\s?t\s?t\s?p\s?(s?)\s?[:;]\s?\/\s?\/\s?/i)
+  if (schemeMatch && schemeMatch[0] !== `http${schemeMatch[1]}://`) corrections++
+  // Only a printed "http://" stays plain; otherwise assume https, as normalizeUrl does
+  const scheme = schemeMatch && !schemeMatch[1] ? 'http://' : 'https://'
+  const rest = schemeMatch ? raw.slice(schemeMatch[0].length) : raw
+
+  const hostEnd = rest.search(/[/:]/)
+  const host = hostEnd === -1 ? rest : rest.slice(0, hostEnd)
+  const tail = hostEnd === -1 ? '' : rest.slice(hostEnd)
+
+  // Commas and stray spaces around dots are OCR noise inside a hostname
+  const commaAsDot = host.includes(',')
+  const cleanedHost = host.replace(/\s/g, '').replace(/,/g, '.').toLowerCase()
+  if (cleanedHost !== host.toLowerCase()) corrections++
+
+  // The literal reading is always offered when valid: "paypa1.com" may be a
+  // genuine lookalike domain, and silently "fixing" it would scan the wrong site
+  const corrected = correctHost(cleanedHost)
+  const variants: Corrected[] = [{ value: cleanedHost, corrections }]
+  if (corrected.value !== cleanedHost) {
+    variants.push({ value: corrected.value, corrections: corrections + corrected.corrections })
+  }
+
+  return variants.flatMap((variant) => {
+    const candidate = buildCandidate(scheme, variant.value, tail, raw, variant.corrections, {
+      hasScheme: schemeMatch !== null,
+      wrapped,
+    })
+    if (!candidate) return []
+    return [commaAsDot ? { ...candidate, commaAsDot } : candidate]
+  })
+}
+
+function buildCandidate(
+  scheme: string,
+  host: string,
+  tail: string,
+  raw: string,
+  corrections: number,
+  { hasScheme, wrapped }: { hasScheme: boolean; wrapped: boolean }
+): UrlCandidate | null {
+  if (!/^[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)+$/u.test(host)) return null
+  if (host.split('.').some((label) => label.startsWith('-') || label.endsWith('-'))) return null
+  const suffix = publicSuffixOf(host)
+  if (!suffix) return null
+
+  let url: URL
+  try {
+    url = new URL(scheme + host + tail)
+  } catch {
+    return null
+  }
+
+  let confidence = 0.5
+  if (hasScheme) confidence += 0.3
+  if (host.startsWith('www.')) confidence += 0.1
+  if (COMMON_SUFFIXES.has(suffix)) confidence += 0.1
+  if (tail.startsWith('/') && tail.length > 1) confidence += 0.05
+  if (wrapped) confidence -= 0.05
+  confidence -= corrections * 0.1
+
+  return { url: url.toString(), raw, confidence }
+}
+
+const roundConfidence = (value: number) => Math.round(Math.min(1, Math.max(0.05, value)) * 100) / 100
+
+/**
+ * Finds web addresses in OCR output, including ones printed without a scheme,
+ * wrapped across lines or containing common character confusions. Candidates
+ * are deduplicated and sorted by confidence, best first.
+ */
+export function extractUrls(text: string): UrlCandidate[] {
+  const best = new Map<string, UrlCandidate>()
+  const consider = (source: string, wrapped: boolean) => {
+    const emails = [...source.matchAll(EMAIL)].map((email) => [email.index, email.index + email[0].length])
+    for (const match of source.matchAll(URL_TOKEN)) {
+      // Either half of an email address is not a link, though a link may contain one in its query
+      if (emails.some(([start, end]) => match.index >= start && match.index < end)) continue
+      for (const candidate of toCandidates(match[0], wrapped)) {
+        const existing = best.get(candidate.url)
+        if (!existing || existing.confidence < candidate.confidence) best.set(candidate.url, candidate)
+      }
+    }
+  }
+
+  consider(text, false)
+  const joined = joinWrappedLines(text)
+  if (joined !== text) consider(joined, true)
+
+  const candidates = [...best.values()]
+  return candidates
+    .map((candidate) => {
+      // A URL that a wrapped line continues is most likely cut short
+      const truncated = candidates.some((other) =>
+        other.url.length > candidate.url.length && other.url.startsWith(candidate.url)
+      )
+      return { ...candidate, confidence: roundConfidence(candidate.confidence - (truncated ? 0.15 : 0)) }
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+}
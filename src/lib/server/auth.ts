@@ -0,0 +1,23 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { serverEnv } from '@/config/server'
+import { errorResponse } from './responses'
+
+// Hashed so tokens of different lengths can be compared in constant time
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+/**
+ * Checks the request's `Authorization: Bearer <token>` against
+ * ADMIN_API_TOKEN. Returns an error Response when the request may not
+ * proceed, including whenever no token is configured.
+ */
+export function requireAdmin(request: Request): Response | undefined {
+  const expected = serverEnv.adminToken
+  if (!expected) {
+    return errorResponse('unauthorized', 401, { message: 'Set ADMIN_API_TOKEN on the server to use this route' })
+  }
+  const provided = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') ?? '')?.[1]?.trim()
+  if (!provided || !timingSafeEqual(digest(provided), digest(expected))) {
+    return errorResponse('unauthorized', 401, { headers: { 'WWW-Authenticate': 'Bearer' } })
+  }
+  return undefined
+}
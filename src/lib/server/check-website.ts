@@ -0,0 +1,116 @@
+import { serverEnv } from '@/config/server'
+import type { ApiErrorCode } from '@/lib/api/errors'
+import { InvalidUrlError, normalizeUrl } from '@/lib/url/normalize'
+import { errorResponse } from './responses'
+import { clientKey, RateLimiter } from './rate-limit'
+import { TtlCache } from './ttl-cache'
+
+// The backend's raw response, with when it was fetched so cache hits keep the original scan time
+export interface CachedScan {
+  payload: unknown
+  scannedAt: string
+}
+
+// Shared by the plain and streaming routes; module state lives as long as the server instance
+const scanCache = new TtlCache<CachedScan>(serverEnv.cacheTtlSeconds * 1000, serverEnv.cacheMaxEntries)
+const rateLimiter = new RateLimiter(serverEnv.rateLimitMax, serverEnv.rateLimitWindowSeconds * 1000)
+
+export function cacheScan(url: string, payload: unknown, scannedAt = new Date().toISOString()) {
+  scanCache.set(url, { payload, scannedAt })
+}
+
+export type PreparedScan =
+  | { url: string; cached: CachedScan; remaining?: undefined }
+  | { url: string; cached?: undefined; remaining: number }
+
+/**
+ * Parses and normalizes the requested URL, then either finds a cached result
+ * or reserves a slot under the client's rate limit. Returns an error Response
+ * when the request cannot proceed.
+ */
+export async function prepareScan(request: Request): Promise<PreparedScan | Response> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('invalid_request', 400, { message: 'Request body must be JSON' })
+  }
+
+  const rawUrl = (body as { url?: unknown } | null)?.url
+  if (typeof rawUrl !== 'string') {
+    return errorResponse('invalid_url', 400, { message: 'Request body must include a "url" string' })
+  }
+
+  let url: string
+  try {
+    url = normalizeUrl(rawUrl)
+  } catch (error) {
+    if (error instanceof InvalidUrlError) return errorResponse('invalid_url', 400, { message: error.message })
+    throw error
+  }
+
+  const cached = scanCache.get(url)
+  if (cached !== undefined) return { url, cached }
+
+  // Only requests that reach the scanner count against the limit
+  const limit = reserveScan(request)
+  if (limit instanceof Response) return limit
+  return { url, remaining: limit.remaining }
+}
+
+/**
+ * Counts one backend scan against the client's rate limit, which every route
+ * that triggers scans shares. Returns a 429 Response once the limit is used up.
+ */
+export function reserveScan(request: Request): { remaining: number } | Response {
+  const limit = rateLimiter.check(clientKey(request, serverEnv.trustedProxyHops))
+  if (!limit.allowed) {
+    return errorResponse('rate_limited', 429, {
+      headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) },
+    })
+  }
+  return { remaining: limit.remaining }
+}
+
+const upstreamErrorCode = (status: number): ApiErrorCode =>
+  status === 404 ? 'not_found'
+  : status === 400 || status === 422 ? 'invalid_url'
+  : status === 429 ? 'rate_limited'
+  : 'upstream_error'
+
+/**
+ * POSTs the URL to a backend endpoint. Network failures, timeouts and error
+ * statuses come back as ready-to-send error Responses.
+ */
+export async function fetchUpstream(
+  path: string,
+  url: string,
+  { passStatuses = [] }: { passStatuses?: number[] } = {}
+): Promise<{ upstream: Response } | { error: Response }> {
+  let upstream: Response
+  try {
+    upstream = await fetch(`${serverEnv.apiHost}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+      signal: AbortSignal.timeout(serverEnv.upstreamTimeoutMs),
+      cache: 'no-store',
+    })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      return { error: errorResponse('upstream_timeout', 504) }
+    }
+    console.error('Error contacting scanner backend:', error)
+    return { error: errorResponse('upstream_unavailable', 502) }
+  }
+
+  if (!upstream.ok && !passStatuses.includes(upstream.status)) {
+    const retryAfter = upstream.headers.get('Retry-After')
+    return {
+      error: errorResponse(upstreamErrorCode(upstream.status), upstream.status >= 500 ? 502 : upstream.status, {
+        headers: retryAfter ? { 'Retry-After': retryAfter } : undefined,
+      }),
+    }
+  }
+  return { upstream }
+}
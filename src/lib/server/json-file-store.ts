@@ -0,0 +1,63 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+// Route handlers and background jobs can be bundled separately, so the write
+// queues live on globalThis to keep one per file per process
+const shared = globalThis as typeof globalThis & { __jsonFileQueues?: Map<string, Promise<unknown>> }
+const queues = (shared.__jsonFileQueues ??= new Map())
+
+/**
+ * Server-side state kept in one JSON file, rewritten whole on every change.
+ * Plenty for a few hundred records on a single server instance. Reads and
+ * updates are applied one at a time, in call order.
+ */
+export class JsonFileStore<T> {
+  constructor(
+    private readonly file: string,
+    private readonly empty: T,
+    private readonly isValid: (value: unknown) => value is T
+  ) {}
+
+  read(): Promise<T> {
+    return this.serialized(() => this.load())
+  }
+
+  /**
+   * Saves the `next` state returned by `change` and resolves with its
+   * `value`. `change` must not do slow work such as scanning, as it holds up
+   * every other read and update of the file.
+   */
+  update<R>(change: (current: T) => { next: T; value: R }): Promise<R> {
+    return this.serialized(async () => {
+      const { next, value } = change(await this.load())
+      await this.save(next)
+      return value
+    })
+  }
+
+  private serialized<R>(task: () => Promise<R>): Promise<R> {
+    const run = (queues.get(this.file) ?? Promise.resolve()).then(task)
+    queues.set(this.file, run.catch(() => undefined))
+    return run
+  }
+
+  private async load(): Promise<T> {
+    let text: string
+    try {
+      text = await readFile(this.file, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return this.empty
+      throw error
+    }
+    const parsed: unknown = JSON.parse(text)
+    if (!this.isValid(parsed)) throw new Error(`${this.file} does not hold the expected data`)
+    return parsed
+  }
+
+  // Written to a temporary file and renamed over the old one, so a crash never leaves half a file
+  private async save(value: T) {
+    await mkdir(dirname(this.file), { recursive: true })
+    await writeFile(`${this.file}.tmp`, JSON.stringify(value, null, 2))
+    await rename(`${this.file}.tmp`, this.file)
+  }
+}
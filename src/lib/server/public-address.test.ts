@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { assertPublicUrl, isPrivateAddress, PrivateAddressError, UnresolvedHostError } from './public-address'
+
+describe('isPrivateAddress', () => {
+  it('refuses loopback, private, link-local, CGNAT and multicast IPv4 ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('accepts public IPv4 addresses next to those ranges', () => {
+    for (const address of ['8.8.8.8', '172.15.255.255', '172.32.0.1', '100.128.0.1', '93.184.216.34']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('checks IPv6, including IPv4-mapped addresses in either notation', () => {
+    for (const address of ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a00:1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+    for (const address of ['2606:4700::1111', '::ffff:8.8.8.8', '::ffff:808:808']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPrivateAddress('example.com')).toBe(true)
+  })
+})
+
+describe('assertPublicUrl', () => {
+  it('refuses local names and private IP literals without a lookup', async () => {
+    await expect(assertPublicUrl('http://localhost:3000/hook')).rejects.toBeInstanceOf(PrivateAddressError)
+    await expect(assertPublicUrl('https://printer.local/')).rejects.toBeInstanceOf(PrivateAddressError)
+    await expect(assertPublicUrl('http://[::1]/')).rejects.toBeInstanceOf(PrivateAddressError)
+    await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toBeInstanceOf(PrivateAddressError)
+  })
+
+  it('accepts public IP literals', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined()
+  })
+
+  it('reports a host that cannot be resolved as retryable rather than private', async () => {
+    await expect(assertPublicUrl('https://securecheck-test.invalid/')).rejects.toBeInstanceOf(UnresolvedHostError)
+  })
+})
@@ -0,0 +1,118 @@
+import { lookup } from 'node:dns/promises'
+import { isIP, type LookupFunction } from 'node:net'
+
+// Guards server-side requests to user-supplied URLs (webhook targets) so they
+// cannot be pointed at this machine or the network it sits in.
+
+export class PrivateAddressError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PrivateAddressError'
+  }
+}
+
+// The host's name could not be looked up right now; unlike a private address, worth trying again
+export class UnresolvedHostError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'UnresolvedHostError'
+  }
+}
+
+// [first address, prefix length] of IPv4 ranges that are not publicly routable
+const PRIVATE_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((acc, part) => acc * 256 + Number(part), 0)
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return PRIVATE_IPV4.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size)
+  })
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const lower = address.toLowerCase()
+  // IPv4-mapped, e.g. ::ffff:127.0.0.1, which URL parsing rewrites to ::ffff:7f00:1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower)
+  if (mapped) return isPrivateIpv4(mapped[1])
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower)
+  if (mappedHex) {
+    const [high, low] = [Number.parseInt(mappedHex[1], 16), Number.parseInt(mappedHex[2], 16)]
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'))
+  }
+  if (lower === '::' || lower === '::1') return true
+  const first = Number.parseInt(lower.split(':')[0] || '0', 16)
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return isPrivateIpv4(address)
+  if (version === 6) return isPrivateIpv6(address)
+  return true
+}
+
+// The host's public addresses, throwing when there are none to connect to
+async function resolvePublicHost(hostname: string): Promise<string[]> {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    throw new PrivateAddressError(`${host} is not a public host`)
+  }
+
+  let addresses: string[]
+  if (isIP(host)) {
+    addresses = [host]
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address)
+    } catch (error) {
+      throw new UnresolvedHostError(`${host} could not be resolved`, { cause: error })
+    }
+  }
+  const blocked = addresses.find(isPrivateAddress)
+  if (blocked) throw new PrivateAddressError(`${host} resolves to ${blocked}, which is not a public address`)
+  return addresses
+}
+
+/**
+ * Resolves the URL's host and throws a PrivateAddressError unless every
+ * address it resolves to is public. Loopback, private, link-local, CGNAT and
+ * multicast ranges are refused, as are names like "localhost". A failed
+ * lookup throws an UnresolvedHostError instead.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  await resolvePublicHost(new URL(url).hostname)
+}
+
+/**
+ * A `lookup` for node:http and node:https requests that applies the same
+ * check and hands the socket only the addresses it just checked. Checking
+ * first and letting the request resolve the name again would let the name
+ * be re-pointed at a private address in between.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicHost(hostname).then(
+    (addresses) => {
+      const entries = addresses.map((address) => ({ address, family: isIP(address) }))
+      if (options.all) callback(null, entries)
+      else callback(null, entries[0].address, entries[0].family)
+    },
+    (error: Error) => callback(error, '')
+  )
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { clientKey } from './rate-limit'
+
+const request = (forwardedFor?: string) =>
+  new Request('http://localhost/api/check-website', {
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  })
+
+describe('clientKey', () => {
+  it('ignores X-Forwarded-For when no proxy is trusted', () => {
+    expect(clientKey(request('203.0.113.7'), 0)).toBe(clientKey(request('198.51.100.1'), 0))
+  })
+
+  it('reads the address the outermost trusted proxy appended', () => {
+    // The caller sent a forged first entry; one proxy appended the real address
+    expect(clientKey(request('1.2.3.4, 203.0.113.7'), 1)).toBe('203.0.113.7')
+    // Behind two proxies, the nearest one appended the other's address
+    expect(clientKey(request('1.2.3.4, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7')
+  })
+
+  it('falls back to the shared key when the header is missing or too short', () => {
+    expect(clientKey(request(), 1)).toBe(clientKey(request(), 0))
+    expect(clientKey(request('203.0.113.7'), 2)).toBe(clientKey(request(), 0))
+  })
+})
@@ -0,0 +1,56 @@
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Milliseconds until the client may try again; 0 when allowed
+  retryAfterMs: number
+}
+
+/**
+ * Sliding-window rate limiter keyed by client. Keeps the timestamps of each
+ * client's recent requests in memory, per server instance.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>()
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  check(client: string): RateLimitResult {
+    const now = Date.now()
+    const recent = (this.hits.get(client) ?? []).filter((time) => time > now - this.windowMs)
+
+    if (recent.length >= this.max) {
+      this.hits.set(client, recent)
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + this.windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(client, recent)
+    this.prune(now)
+    return { allowed: true, remaining: this.max - recent.length, retryAfterMs: 0 }
+  }
+
+  // Drop clients with no requests left in the window so the map cannot grow forever
+  private prune(now: number) {
+    if (this.hits.size < 1000) return
+    for (const [client, times] of this.hits) {
+      if (times[times.length - 1] <= now - this.windowMs) this.hits.delete(client)
+    }
+  }
+}
+
+// Shared by every client when their address cannot be trusted
+const UNTRUSTED_CLIENT = 'anonymous'
+
+/**
+ * Client identity for rate limiting. X-Forwarded-For is written by whoever
+ * sends the request, so only the entries appended by our own proxies count:
+ * with `trustedProxyHops` proxies in front of the server, the client is the
+ * address the outermost one saw, that many entries from the right. Route
+ * handlers cannot see the connection's address, so without a trusted proxy
+ * every client shares one limit rather than picking their own key.
+ */
+export function clientKey(request: Request, trustedProxyHops: number): string {
+  if (trustedProxyHops < 1) return UNTRUSTED_CLIENT
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim())
+  return forwarded.at(-trustedProxyHops) || UNTRUSTED_CLIENT
+}
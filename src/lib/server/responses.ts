@@ -0,0 +1,10 @@
+import { API_ERROR_MESSAGES, type ApiErrorBody, type ApiErrorCode } from '@/lib/api/errors'
+
+export function errorResponse(
+  code: ApiErrorCode,
+  status: number,
+  { message, headers }: { message?: string; headers?: HeadersInit } = {}
+): Response {
+  const body: ApiErrorBody = { error: { code, message: message ?? API_ERROR_MESSAGES[code] } }
+  return Response.json(body, { status, headers })
+}
@@ -0,0 +1,38 @@
+import { validateCheckWebsiteResponse } from '@/lib/api/check-website'
+import { ApiError, errorFromResponse } from '@/lib/api/client'
+import { toScanOutcome, type ScanOutcome } from '@/lib/analysis/run'
+import { preflightUrl } from '@/lib/url/heuristics'
+import { announceScan } from '@/lib/webhooks/deliver'
+import { cacheScan, fetchUpstream } from './check-website'
+
+// The backend's raw response as an outcome, judged exactly as the UI would
+export function outcomeFromPayload(url: string, payload: unknown, scannedAt?: string): ScanOutcome {
+  const validated = validateCheckWebsiteResponse(payload)
+  if (Object.keys(validated.sections).length === 0) {
+    throw new ApiError('The scanner returned an empty analysis', 502, undefined, 'upstream_error')
+  }
+  return toScanOutcome(preflightUrl(url), validated, scannedAt)
+}
+
+/**
+ * Runs the scan pipeline from the server, for scans nobody is waiting on in a
+ * browser: the backend is called directly, skipping the proxy's cache lookup
+ * and rate limit. Failures reject with an ApiError, as analyzeWebsite does.
+ * Fresh results are cached and announced to the webhook targets.
+ */
+export async function scanOnServer(url: string): Promise<ScanOutcome> {
+  const { url: normalized } = preflightUrl(url)
+  const fetched = await fetchUpstream('/check-website', normalized)
+  if ('error' in fetched) throw await errorFromResponse(fetched.error)
+
+  let payload: unknown
+  try {
+    payload = await fetched.upstream.json()
+  } catch {
+    throw new ApiError('The scanner returned an invalid response', 502, undefined, 'upstream_error')
+  }
+  const outcome = outcomeFromPayload(normalized, payload)
+  cacheScan(normalized, payload, outcome.scannedAt)
+  announceScan(outcome)
+  return outcome
+}
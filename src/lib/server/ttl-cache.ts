@@ -0,0 +1,36 @@
+interface Entry<T> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * In-memory cache with per-entry expiry. When full, the least recently
+ * written entry is evicted (Map iteration order is insertion order). State is
+ * per server instance and is lost on restart.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, Entry<T>>()
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  set(key: string, value: T) {
+    if (this.ttlMs <= 0) return
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs })
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { env } from '@/config/env'
+import { ruleIssue } from '@/lib/analysis/rules'
+import type { SecurityIssue } from '@/lib/analysis/types'
+import { publicSuffixOf } from '@/lib/scanner/public-suffixes'
+import { normalizeUrl, parseUrlInput } from './normalize'
+import { toUnicodeHostname } from './punycode'
+
+export interface UrlPreflight {
+  // Normalized URL that is sent to the scanner
+  url: string
+  // Hostname as parsed, punycode and all
+  hostname: string
+  // Hostname with punycode labels decoded, for display
+  displayHostname: string
+  issues: SecurityIssue[]
+}
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 's.id', 't.ly', 'bit.do',
+  'lnkd.in', 'qrco.de', 'shorte.st', 'v.gd',
+])
+
+// More subdomain levels than this is rare for legitimate sites
+const MAX_SUBDOMAIN_LEVELS = 3
+
+// Characters commonly substituted for Latin letters, mapped to what they imitate
+const CONFUSABLES: Record<string, string> = {
+  '0': 'o', '1': 'l', '3': 'e', '5': 's', '7': 't',
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd',
+  'ӏ': 'l', 'ԛ': 'q', 'ԝ': 'w', 'һ': 'h',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x',
+}
+
+type Script = 'latin' | 'cyrillic' | 'greek' | 'other'
+
+const SCRIPT_NAMES: Record<Script, string> = { latin: 'Latin', cyrillic: 'Cyrillic', greek: 'Greek', other: 'non-Latin' }
+
+const scriptOf = (char: string): Script | null => {
+  const code = char.codePointAt(0) ?? 0
+  if (/[\d-]/.test(char)) return null
+  if (code < 0x80 || (code >= 0xc0 && code <= 0x24f)) return 'latin'
+  if (code >= 0x400 && code <= 0x52f) return 'cyrillic'
+  if (code >= 0x370 && code <= 0x3ff) return 'greek'
+  return 'other'
+}
+
+const scriptsOf = (label: string) =>
+  new Set(Array.from(label).map(scriptOf).filter((script): script is Script => script !== null))
+
+// What a label looks like once lookalike characters are replaced, e.g. "paypa1" -> "paypal"
+const skeleton = (label: string) => Array.from(label.toLowerCase())
+  .map((char) => CONFUSABLES[char] ?? char)
+  .join('')
+  .replace(/rn/g, 'm')
+  .replace(/vv/g, 'w')
+  .replace(/-/g, '')
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+const isIpLiteral = (hostname: string) =>
+  hostname.startsWith('[') || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname)
+
+function homographIssues(hostname: string, displayHostname: string): SecurityIssue[] {
+  if (hostname === displayHostname) return []
+  const issues = [ruleIssue('url-idn', `Internationalized domain: ${hostname} is displayed as ${displayHostname}`, {
+    evidence: hostname,
+  })]
+  for (const label of displayHostname.split('.')) {
+    const scripts = scriptsOf(label)
+    if (scripts.size > 1) {
+      issues.push(ruleIssue('url-mixed-script',
+        `Label "${label}" mixes ${[...scripts].map((script) => SCRIPT_NAMES[script]).join(' and ')} characters, a common homograph trick`,
+        { evidence: label }))
+    } else if (!scripts.has('latin') && /^[a-z]+$/.test(skeleton(label))) {
+      issues.push(ruleIssue('url-confusable-script',
+        `Label "${label}" is written entirely in lookalike characters and reads as "${skeleton(label)}"`,
+        { evidence: label }))
+    }
+  }
+  return issues
+}
+
+function brandIssues(displayHostname: string, brands: readonly string[]): SecurityIssue[] {
+  const labels = displayHostname.split('.')
+  const suffix = publicSuffixOf(displayHostname)
+  const domainIndex = labels.length - (suffix ? suffix.split('.').length : 1) - 1
+  if (domainIndex < 0) return []
+
+  const domain = labels[domainIndex]
+  const domainSkeleton = skeleton(domain)
+  const tokens = domain.split(/[-\d]+/)
+  const subdomainTokens = labels.slice(0, domainIndex).flatMap((label) => label.split(/[-\d]+/))
+
+  const issues: SecurityIssue[] = []
+  for (const brand of brands) {
+    if (domain === brand) continue
+    if (domainSkeleton === brand) {
+      issues.push(ruleIssue('url-brand-lookalike', `Domain "${domain}" imitates the brand "${brand}"`, { evidence: displayHostname }))
+    } else if (brand.length >= 6 && editDistance(domainSkeleton, brand) === 1) {
+      issues.push(ruleIssue('url-brand-typo', `Domain "${domain}" is one character away from the brand "${brand}"`, { evidence: displayHostname }))
+    } else if (tokens.includes(brand)) {
+      issues.push(ruleIssue('url-brand-in-domain', `Domain "${domain}" uses the brand name "${brand}" without belonging to it`, { evidence: displayHostname }))
+    } else if (subdomainTokens.includes(brand)) {
+      issues.push(ruleIssue('url-brand-in-subdomain', `The brand name "${brand}" appears in a subdomain of an unrelated domain`, { evidence: displayHostname }))
+    }
+  }
+  return issues
+}
+
+/**
+ * Normalizes user input the way the scanner will see it and runs offline
+ * checks on the address itself, before any request is made. Throws
+ * InvalidUrlError for input that cannot be scanned at all.
+ */
+export function preflightUrl(input: string, brands: readonly string[] = env.heuristics.brands): UrlPreflight {
+  const parsed = parseUrlInput(input)
+  const issues: SecurityIssue[] = []
+
+  // "https://paypal.com@evil.example" goes to evil.example; scan the real host
+  if (parsed.username || parsed.password) {
+    const userInfo = safeDecode(parsed.password ? `${parsed.username}:${parsed.password}` : parsed.username)
+    issues.push(ruleIssue('url-userinfo',
+      `The address contains "@": "${userInfo}" is ignored and the real host is ${toUnicodeHostname(parsed.hostname)}`,
+      { evidence: `${userInfo}@${parsed.hostname}` }))
+    parsed.username = ''
+    parsed.password = ''
+  }
+
+  const url = normalizeUrl(parsed.toString())
+  const { hostname } = new URL(url)
+  const displayHostname = toUnicodeHostname(hostname)
+
+  if (isIpLiteral(hostname)) {
+    issues.push(ruleIssue('url-ip-host', `Host ${hostname} is a raw IP address rather than a domain name`, { evidence: hostname }))
+  } else {
+    issues.push(...homographIssues(hostname, displayHostname))
+
+    const suffix = publicSuffixOf(hostname)
+    const subdomainLevels = hostname.split('.').length - (suffix ? suffix.split('.').length : 1) - 1
+    if (subdomainLevels > MAX_SUBDOMAIN_LEVELS) {
+      issues.push(ruleIssue('url-deep-subdomains', `Host has ${subdomainLevels} levels of subdomains`, { evidence: hostname }))
+    }
+
+    if (SHORTENERS.has(hostname.replace(/^www\./, ''))) {
+      issues.push(ruleIssue('url-shortener', `${hostname} is a link shortener; the final destination is hidden`, { evidence: hostname }))
+    }
+
+    issues.push(...brandIssues(displayHostname, brands))
+  }
+
+  return { url, hostname, displayHostname, issues }
+}
@@ -0,0 +1,42 @@
+export class InvalidUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidUrlError'
+  }
+}
+
+/**
+ * Parses user input as an http(s) URL, assuming https when no scheme is given.
+ * Unlike normalizeUrl it keeps embedded credentials so callers can inspect them.
+ */
+export function parseUrlInput(input: string): URL {
+  const trimmed = input.trim()
+  if (!trimmed) throw new InvalidUrlError('URL is empty')
+
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  let url: URL
+  try {
+    url = new URL(withScheme)
+  } catch {
+    throw new InvalidUrlError('URL could not be parsed')
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new InvalidUrlError(`Unsupported scheme "${url.protocol.slice(0, -1)}"`)
+  }
+  if (!url.hostname) throw new InvalidUrlError('URL has no host')
+  return url
+}
+
+/**
+ * Canonical form of a URL to scan: http(s) only, https assumed when no scheme
+ * is given, host lowercased by the URL parser, fragment dropped. Throws
+ * InvalidUrlError for anything that cannot be scanned.
+ */
+export function normalizeUrl(input: string): string {
+  const url = parseUrlInput(input)
+  if (url.username || url.password) throw new InvalidUrlError('URLs with embedded credentials are not scanned')
+
+  url.hash = ''
+  return url.toString()
+}
@@ -0,0 +1,69 @@
+// Punycode (RFC 3492) decoding for the "xn--" labels browsers produce when
+// they parse an internationalized hostname. Only decoding is needed: the URL
+// parser already does the encoding.
+
+const BASE = 36
+const T_MIN = 1
+const T_MAX = 26
+const SKEW = 38
+const DAMP = 700
+const INITIAL_BIAS = 72
+const INITIAL_N = 128
+
+const digitValue = (code: number): number =>
+  code >= 0x30 && code <= 0x39 ? code - 22
+  : code >= 0x41 && code <= 0x5a ? code - 0x41
+  : code >= 0x61 && code <= 0x7a ? code - 0x61
+  : BASE
+
+function adapt(delta: number, points: number, first: boolean): number {
+  let k = 0
+  delta = first ? Math.floor(delta / DAMP) : delta >> 1
+  delta += Math.floor(delta / points)
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN))
+    k += BASE
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW))
+}
+
+/**
+ * Decodes the part of a label after "xn--". Returns null for input that is
+ * not valid punycode rather than guessing.
+ */
+export function decodePunycode(input: string): string | null {
+  const separator = input.lastIndexOf('-')
+  const output = separator > 0 ? Array.from(input.slice(0, separator), (char) => char.codePointAt(0) ?? 0) : []
+  if (output.some((code) => code >= 0x80)) return null
+
+  let n = INITIAL_N
+  let bias = INITIAL_BIAS
+  let i = 0
+  for (let index = separator > 0 ? separator + 1 : 0; index < input.length;) {
+    const previous = i
+    for (let weight = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) return null
+      const digit = digitValue(input.charCodeAt(index++))
+      if (digit >= BASE) return null
+      i += digit * weight
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias
+      if (digit < t) break
+      weight *= BASE - t
+    }
+    bias = adapt(i - previous, output.length + 1, previous === 0)
+    n += Math.floor(i / (output.length + 1))
+    i %= output.length + 1
+    if (n > 0x10ffff) return null
+    output.splice(i++, 0, n)
+  }
+
+  return String.fromCodePoint(...output)
+}
+
+// "xn--80ak6aa92e.com" -> "аррӏе.com"; labels that fail to decode are kept
+export function toUnicodeHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map((label) => label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label)
+    .join('.')
+}
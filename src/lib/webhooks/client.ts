@@ -0,0 +1,19 @@
+import { getAdminToken } from '@/lib/api/admin-token'
+import { requestJson } from '@/lib/api/client'
+import type { WebhookFormat } from './payload'
+import type { DeliveryRecord, WebhookListing, WebhookTarget } from './targets'
+
+// Browser-side calls to the /api/webhooks routes, authenticated with the
+// session's admin token; failures reject with an ApiError
+
+export const fetchWebhooks = () => requestJson<WebhookListing>('/api/webhooks', { token: getAdminToken() })
+
+// The only response that includes the target's signing secret
+export const addWebhookTarget = (url: string, format: WebhookFormat) =>
+  requestJson<WebhookTarget>('/api/webhooks', { method: 'POST', body: { url, format }, token: getAdminToken() })
+
+export const removeWebhookTarget = (id: string) =>
+  requestJson<void>(`/api/webhooks/${id}`, { method: 'DELETE', token: getAdminToken() })
+
+export const testWebhookTarget = (id: string) =>
+  requestJson<DeliveryRecord>(`/api/webhooks/${id}/test`, { method: 'POST', token: getAdminToken() })
@@ -0,0 +1,158 @@
+import { randomUUID } from 'node:crypto'
+import http from 'node:http'
+import https from 'node:https'
+import { serverEnv } from '@/config/server'
+import { validateCheckWebsiteResponse } from '@/lib/api/check-website'
+import { parseRetryAfter } from '@/lib/api/client'
+import { toScanOutcome, type ScanOutcome } from '@/lib/analysis/run'
+import { assertPublicUrl, PrivateAddressError, publicLookup } from '@/lib/server/public-address'
+import { preflightUrl } from '@/lib/url/heuristics'
+import { formatPayload, summarizeScan, type WebhookEvent } from './payload'
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from './signature'
+import { webhookStore } from './store'
+import { MAX_DELIVERIES, type DeliveryAttempt, type DeliveryRecord, type WebhookTarget } from './targets'
+
+// A target's Retry-After is honoured up to this
+const MAX_RETRY_DELAY_MS = 5 * 60_000
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+// 408, 429 and 5xx are worth another try, as are timeouts and network errors; other statuses are not
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500
+
+/**
+ * POSTs the body and resolves with the response status once the headers are
+ * in. node:http rather than fetch, so the connection can use publicLookup;
+ * redirects are not followed, as one could lead to a private address.
+ */
+function post(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; retryAfter: string | null }> {
+  const { request } = url.startsWith('https:') ? https : http
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(serverEnv.webhooks.timeoutMs),
+    }, (response) => {
+      response.resume()
+      resolve({ status: response.statusCode ?? 0, retryAfter: response.headers['retry-after'] ?? null })
+    })
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+interface AttemptResult {
+  attempt: DeliveryAttempt
+  ok: boolean
+  retryable: boolean
+  retryAfterMs?: number
+}
+
+async function attemptDelivery(target: WebhookTarget, event: WebhookEvent, deliveryId: string): Promise<AttemptResult> {
+  const sentAt = new Date()
+  const timestamp = Math.floor(sentAt.getTime() / 1000)
+  const body = JSON.stringify(formatPayload(target.format, event, { id: deliveryId, sentAt: sentAt.toISOString() }))
+  const started = Date.now()
+  try {
+    // Checked on every attempt, as the name may have been re-pointed since the target was added.
+    // Names are checked again by the lookup the connection uses; this catches IP literals too.
+    await assertPublicUrl(target.url)
+    const response = await post(target.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SecureCheck-Webhooks',
+      'X-SecureCheck-Event': event.type,
+      // The same across retries, so receivers can drop duplicates
+      'X-SecureCheck-Delivery': deliveryId,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signPayload(target.secret, timestamp, body),
+    }, body)
+    return {
+      attempt: { at: sentAt.toISOString(), status: response.status, durationMs: Date.now() - started },
+      ok: response.status >= 200 && response.status < 300,
+      retryable: isRetryable(response.status),
+      retryAfterMs: parseRetryAfter(response.retryAfter),
+    }
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `No response within ${serverEnv.webhooks.timeoutMs / 1000} seconds`
+      : error instanceof Error ? error.message
+      : 'Request failed'
+    return {
+      attempt: { at: sentAt.toISOString(), error: message, durationMs: Date.now() - started },
+      ok: false,
+      retryable: !(error instanceof PrivateAddressError),
+    }
+  }
+}
+
+const saveDelivery = (record: DeliveryRecord) => webhookStore.update((state) => {
+  const exists = state.deliveries.some((other) => other.id === record.id)
+  const deliveries = exists
+    ? state.deliveries.map((other) => (other.id === record.id ? record : other))
+    : [record, ...state.deliveries].slice(0, MAX_DELIVERIES)
+  return { next: { ...state, deliveries }, value: undefined }
+})
+
+/**
+ * Sends one event to one target, retrying failures with exponential backoff
+ * (or the target's Retry-After) up to WEBHOOK_MAX_ATTEMPTS tries. Every
+ * attempt is written to the delivery log. Retries live in this process, so a
+ * restart abandons any still pending.
+ */
+export async function deliverToTarget(
+  target: WebhookTarget,
+  event: WebhookEvent,
+  { maxAttempts = serverEnv.webhooks.maxAttempts }: { maxAttempts?: number } = {}
+): Promise<DeliveryRecord> {
+  let record: DeliveryRecord = {
+    id: randomUUID(),
+    targetId: target.id,
+    targetUrl: target.url,
+    event: event.type,
+    ...(event.type === 'scan.completed' ? { scanUrl: event.scan.url } : {}),
+    ...(event.type === 'monitor.alert' ? { scanUrl: event.alert.url } : {}),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    attempts: [],
+  }
+  await saveDelivery(record)
+
+  for (let attempt = 1; ; attempt++) {
+    const { attempt: result, ok, retryable, retryAfterMs } = await attemptDelivery(target, event, record.id)
+    const done = ok || !retryable || attempt >= maxAttempts
+    const delayMs = Math.min(retryAfterMs ?? serverEnv.webhooks.retryBaseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS)
+    record = {
+      ...record,
+      attempts: [...record.attempts, result],
+      status: ok ? 'delivered' : done ? 'failed' : 'pending',
+      nextAttemptAt: done ? undefined : new Date(Date.now() + delayMs).toISOString(),
+    }
+    await saveDelivery(record)
+    if (done) return record
+    await sleep(delayMs)
+  }
+}
+
+// Sends the event to every configured target at once
+export async function deliverEvent(event: WebhookEvent): Promise<DeliveryRecord[]> {
+  const { targets } = await webhookStore.read()
+  return Promise.all(targets.map((target) => deliverToTarget(target, event)))
+}
+
+/**
+ * Announces a finished scan to the webhook targets in the background; the
+ * caller does not wait for deliveries or their retries.
+ */
+export function announceScan(outcome: ScanOutcome) {
+  deliverEvent({ type: 'scan.completed', scan: summarizeScan(outcome) }).catch((error) => {
+    console.error('Failed to deliver scan webhooks:', error)
+  })
+}
+
+// For the proxy routes, which relay the backend's raw response rather than an outcome
+export function announceScanResponse(url: string, payload: unknown) {
+  const validated = validateCheckWebsiteResponse(payload)
+  if (Object.keys(validated.sections).length === 0) return
+  announceScan(toScanOutcome(preflightUrl(url), validated))
+}
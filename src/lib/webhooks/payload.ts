@@ -0,0 +1,189 @@
+import { formatTitle } from '@/lib/analysis/format'
+import type { ScanOutcome } from '@/lib/analysis/run'
+import { categoryEntries, type CategoryKey } from '@/lib/analysis/types'
+import type { SafetyStatus } from '@/lib/analysis/verdict'
+import type { MonitorAlert } from '@/lib/monitoring/watchlist'
+
+// What webhook targets receive. The JSON format is the documented contract;
+// Slack and Markdown render the same event for chat tools.
+
+export type WebhookFormat = 'json' | 'slack' | 'markdown'
+
+export const WEBHOOK_FORMATS: { value: WebhookFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'slack', label: 'Slack (Block Kit)' },
+  { value: 'markdown', label: 'Markdown' },
+]
+
+export interface ScanSummary {
+  url: string
+  scannedAt: string
+  verdict: {
+    status: SafetyStatus
+    title: string
+    score: number
+  }
+  // Per category; null when the check could not run
+  scores: Partial<Record<CategoryKey, number | null>>
+  highIssues: {
+    category: CategoryKey
+    ruleId?: string
+    message: string
+    evidence?: string
+  }[]
+}
+
+export type WebhookEvent =
+  | { type: 'scan.completed'; scan: ScanSummary }
+  // Raised by monitoring when a watched site's verdict gets worse or a new high severity issue appears
+  | { type: 'monitor.alert'; alert: MonitorAlert }
+  // Sent by the "Send test" button
+  | { type: 'ping' }
+
+export interface DeliveryMeta {
+  id: string
+  sentAt: string
+}
+
+export function summarizeScan({ url, scannedAt, result, verdict }: ScanOutcome): ScanSummary {
+  const categories = categoryEntries(result)
+  return {
+    url,
+    scannedAt,
+    verdict: { status: verdict.status, title: verdict.title, score: verdict.score },
+    scores: Object.fromEntries(categories.map(([key, category]) => [key, category.error ? null : category.score])),
+    highIssues: categories.flatMap(([key, category]) => category.issues
+      .filter((issue) => issue.severity === 'high')
+      .map((issue) => ({
+        category: key,
+        ...(issue.ruleId ? { ruleId: issue.ruleId } : {}),
+        message: issue.message,
+        ...(issue.evidence ? { evidence: issue.evidence } : {}),
+      }))),
+  }
+}
+
+const PING_TEXT = 'SecureCheck webhook test: this target is set up correctly.'
+
+const STATUS_LABELS: Record<SafetyStatus, string> = { safe: 'Safe', caution: 'Caution', unsafe: 'Unsafe' }
+
+const SLACK_EMOJI: Record<SafetyStatus, string> = {
+  safe: ':white_check_mark:',
+  caution: ':warning:',
+  unsafe: ':red_circle:',
+}
+
+// Block Kit limits: 10 fields per section, 3000 characters per text
+const MAX_SLACK_FIELDS = 10
+const MAX_SLACK_TEXT = 3000
+// Issues listed in chat formats; the JSON payload always has all of them
+const MAX_LISTED_ISSUES = 10
+
+const escapeSlack = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text)
+
+const scoreText = (score: number | null | undefined) => (typeof score === 'number' ? String(score) : 'n/a')
+
+const listedIssues = (scan: ScanSummary) => {
+  const lines = scan.highIssues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((issue) => `${formatTitle(issue.category)}: ${issue.message}`)
+  const more = scan.highIssues.length - lines.length
+  return more > 0 ? [...lines, `...and ${more} more`] : lines
+}
+
+function slackPayload(scan: ScanSummary) {
+  const { status, title, score } = scan.verdict
+  const issues = listedIssues(scan)
+  return {
+    // Shown in notifications and by clients that do not render blocks
+    text: `${title}: ${scan.url} scored ${score}/100`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(`${title} (${score}/100)`, 150) } },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `${SLACK_EMOJI[status]} *${STATUS_LABELS[status]}*  <${scan.url}|${escapeSlack(scan.url)}>` },
+      },
+      {
+        type: 'section',
+        fields: Object.entries(scan.scores).slice(0, MAX_SLACK_FIELDS).map(([key, value]) => ({
+          type: 'mrkdwn',
+          text: `*${formatTitle(key)}*\n${scoreText(value)}`,
+        })),
+      },
+      ...(issues.length > 0
+        ? [{
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: truncate(`*High severity issues*\n${issues.map((line) => `• ${escapeSlack(line)}`).join('\n')}`, MAX_SLACK_TEXT),
+          },
+        }]
+        : []),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Scanned ${scan.scannedAt}` }] },
+    ],
+  }
+}
+
+function markdownText(scan: ScanSummary): string {
+  const { status, title, score } = scan.verdict
+  const issues = listedIssues(scan)
+  return [
+    `### ${title}: ${scan.url}`,
+    '',
+    `**Verdict:** ${STATUS_LABELS[status]} · **Score:** ${score}/100`,
+    '',
+    '| Category | Score |',
+    '| --- | --- |',
+    ...Object.entries(scan.scores).map(([key, value]) => `| ${formatTitle(key)} | ${scoreText(value)} |`),
+    ...(issues.length > 0 ? ['', '**High severity issues**', '', ...issues.map((line) => `- ${line}`)] : []),
+    '',
+    `_Scanned ${scan.scannedAt}_`,
+  ].join('\n')
+}
+
+function slackAlertPayload(alert: MonitorAlert) {
+  const details = alert.details.slice(0, MAX_LISTED_ISSUES).map((line) => `• ${escapeSlack(line)}`)
+  return {
+    text: alert.message,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(alert.message, 150) } },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: truncate([`<${alert.url}|${escapeSlack(alert.url)}>`, ...details].join('\n'), MAX_SLACK_TEXT) },
+      },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `Raised ${alert.raisedAt}` }] },
+    ],
+  }
+}
+
+const markdownAlertText = (alert: MonitorAlert) => [
+  `### ${alert.message}`,
+  '',
+  alert.url,
+  '',
+  ...alert.details.map((line) => `- ${line}`),
+  '',
+  `_Raised ${alert.raisedAt}_`,
+].join('\n')
+
+/**
+ * The request body for an event in the target's format. JSON bodies carry
+ * the delivery ID and time; Slack and Markdown bodies are `{ text, ... }`
+ * as incoming-webhook endpoints expect.
+ */
+export function formatPayload(format: WebhookFormat, event: WebhookEvent, meta: DeliveryMeta): unknown {
+  switch (format) {
+    case 'json': {
+      const { type, ...fields } = event
+      return { id: meta.id, event: type, sentAt: meta.sentAt, ...fields }
+    }
+    case 'slack':
+      if (event.type === 'ping') return { text: PING_TEXT }
+      return event.type === 'monitor.alert' ? slackAlertPayload(event.alert) : slackPayload(event.scan)
+    case 'markdown':
+      if (event.type === 'ping') return { text: PING_TEXT }
+      return { text: event.type === 'monitor.alert' ? markdownAlertText(event.alert) : markdownText(event.scan) }
+  }
+}
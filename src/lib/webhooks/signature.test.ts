@@ -0,0 +1,43 @@
+import { createHmac } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { generateSecret, signPayload, SIGNATURE_TOLERANCE_SECONDS, verifySignature } from './signature'
+
+const secret = 'whsec_test'
+const body = '{"event":"ping"}'
+const timestamp = 1_700_000_000
+const now = timestamp * 1000
+
+describe('signPayload', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', () => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    expect(signPayload(secret, timestamp, body)).toBe(`sha256=${expected}`)
+  })
+})
+
+describe('verifySignature', () => {
+  const signature = signPayload(secret, timestamp, body)
+
+  it('accepts a delivery signed with the same secret', () => {
+    expect(verifySignature(secret, { signature, timestamp: String(timestamp), body }, now)).toBe(true)
+  })
+
+  it('rejects a different secret, body or timestamp', () => {
+    expect(verifySignature('whsec_other', { signature, timestamp: String(timestamp), body }, now)).toBe(false)
+    expect(verifySignature(secret, { signature, timestamp: String(timestamp), body: `${body} ` }, now)).toBe(false)
+    expect(verifySignature(secret, { signature, timestamp: String(timestamp + 1), body }, now)).toBe(false)
+    expect(verifySignature(secret, { signature: 'sha256=', timestamp: String(timestamp), body }, now)).toBe(false)
+  })
+
+  it('rejects deliveries signed outside the tolerance, and malformed timestamps', () => {
+    const late = now + (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000
+    expect(verifySignature(secret, { signature, timestamp: String(timestamp), body }, late)).toBe(false)
+    expect(verifySignature(secret, { signature, timestamp: 'yesterday', body }, now)).toBe(false)
+  })
+})
+
+describe('generateSecret', () => {
+  it('returns a new prefixed secret each time', () => {
+    expect(generateSecret()).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(generateSecret()).not.toBe(generateSecret())
+  })
+})
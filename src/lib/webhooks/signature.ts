@@ -0,0 +1,31 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+// Every delivery is signed so receivers can check it came from this app and
+// was not replayed: X-SecureCheck-Signature is "sha256=" plus the hex
+// HMAC-SHA256 of "<X-SecureCheck-Timestamp>.<raw body>" keyed with the
+// target's secret.
+
+export const SIGNATURE_HEADER = 'X-SecureCheck-Signature'
+export const TIMESTAMP_HEADER = 'X-SecureCheck-Timestamp'
+
+// Receivers should reject deliveries signed longer ago than this
+export const SIGNATURE_TOLERANCE_SECONDS = 300
+
+export const generateSecret = () => `whsec_${randomBytes(24).toString('hex')}`
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+// For receivers written in TypeScript; compares in constant time
+export function verifySignature(
+  secret: string,
+  { signature, timestamp, body }: { signature: string; timestamp: string; body: string },
+  now = Date.now()
+): boolean {
+  const seconds = Number(timestamp)
+  if (!Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false
+  const expected = Buffer.from(signPayload(secret, seconds, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,16 @@
+import { serverEnv } from '@/config/server'
+import { JsonFileStore } from '@/lib/server/json-file-store'
+import type { WebhookState } from './targets'
+
+// Server-only persistence for webhook targets and the delivery log, in WEBHOOKS_DATA_FILE
+
+const isWebhookState = (value: unknown): value is WebhookState =>
+  typeof value === 'object' && value !== null &&
+  Array.isArray((value as WebhookState).targets) &&
+  Array.isArray((value as WebhookState).deliveries)
+
+export const webhookStore = new JsonFileStore<WebhookState>(
+  serverEnv.webhooks.dataFile,
+  { targets: [], deliveries: [] },
+  isWebhookState
+)
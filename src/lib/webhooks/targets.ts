@@ -0,0 +1,53 @@
+import type { WebhookEvent, WebhookFormat } from './payload'
+
+// Shapes shared by the webhook routes, the delivery worker and the /webhooks page
+
+export interface WebhookTarget {
+  id: string
+  url: string
+  format: WebhookFormat
+  // HMAC key for the X-SecureCheck-Signature header, see signature.ts
+  secret: string
+  createdAt: string
+}
+
+// How targets are listed: the secret is only ever returned when a target is created
+export type WebhookTargetSummary = Omit<WebhookTarget, 'secret'>
+
+export interface DeliveryAttempt {
+  at: string
+  // HTTP status, when the target answered at all
+  status?: number
+  error?: string
+  durationMs: number
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface DeliveryRecord {
+  id: string
+  targetId: string
+  targetUrl: string
+  event: WebhookEvent['type']
+  // The scanned site, for scan.completed and monitor.alert events
+  scanUrl?: string
+  status: DeliveryStatus
+  createdAt: string
+  attempts: DeliveryAttempt[]
+  // When the next retry is due, while the status is pending
+  nextAttemptAt?: string
+}
+
+export interface WebhookState {
+  targets: WebhookTarget[]
+  // Newest first, capped at MAX_DELIVERIES
+  deliveries: DeliveryRecord[]
+}
+
+// What GET /api/webhooks returns
+export interface WebhookListing {
+  targets: WebhookTargetSummary[]
+  deliveries: DeliveryRecord[]
+}
+
+export const MAX_DELIVERIES = 200